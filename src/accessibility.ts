@@ -0,0 +1,56 @@
+import type { CSSProperties } from "react";
+import type { AudioState } from "./types";
+
+/**
+ * The number of frames skipped between two drawn frames when the motion is reduced,
+ * about 4 frames per second on a 60 Hz screen
+ */
+const REDUCED_MOTION_STAGGER = 15;
+
+/**
+ * The text announced for each playback state, when `ariaLabel` is set
+ * @see AudioVisualizerProps.ariaStateLabels
+ */
+const defaultAriaStateLabels: Record<AudioState, string> = {
+  unset: "No audio",
+  loading: "Loading",
+  pending: "Ready to play",
+  paused: "Paused",
+  playing: "Playing",
+  ended: "Ended",
+  blocked: "Waiting for a click to play",
+  error: "The audio could not be played"
+};
+
+/**
+ * The keys handled when `keyboardControls` is set, as listed by `aria-keyshortcuts`
+ */
+const KEYBOARD_SHORTCUTS = "Space ArrowLeft ArrowRight";
+
+/**
+ * The keys that change the volume, only listed when they can change it
+ */
+const VOLUME_SHORTCUTS = "Plus = -";
+
+/**
+ * Hides the live region from sight, while keeping it read by screen readers
+ */
+const visuallyHiddenStyle: CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  padding: 0,
+  margin: -1,
+  overflow: "hidden",
+  clip: "rect(0, 0, 0, 0)",
+  whiteSpace: "nowrap",
+  border: 0
+};
+
+export {
+  defaultAriaStateLabels,
+  KEYBOARD_SHORTCUTS,
+  REDUCED_MOTION_STAGGER,
+  visuallyHiddenStyle,
+  VOLUME_SHORTCUTS
+};
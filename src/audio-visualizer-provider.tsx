@@ -0,0 +1,204 @@
+import React, {
+  createContext,
+  useEffect,
+  useRef,
+  type FC,
+  type RefObject
+} from "react";
+import type { AudioState, AudioVisualizerProviderProps } from "./types";
+
+/**
+ * How the provider sees each `useAudioAnalyser` hook inside it,
+ * to pause it when another source starts playing
+ */
+type AudioPlayer = {
+  audioState: AudioState;
+  getAudioElement: () => HTMLMediaElement | null;
+  pause: () => void;
+};
+
+/**
+ * What the provider shares with the hooks inside it
+ */
+type AudioVisualizerContextValue = {
+  /**
+   * Gets the shared audio context, creating it the first time
+   */
+  getAudioContext: () => AudioContext;
+
+  /**
+   * Gets the element of a source by id, creating it the first time
+   */
+  getSource: (id: string) => HTMLMediaElement | null;
+
+  /**
+   * Registers a hook, so it can be paused by the "pause others" policy
+   *
+   * @returns A function that unregisters the hook
+   */
+  registerPlayer: (player: RefObject<AudioPlayer | null>) => () => void;
+
+  /**
+   * Applies the "pause others" policy, when a hook starts playing
+   */
+  notifyPlaying: (player: RefObject<AudioPlayer | null>) => void;
+};
+
+const AudioVisualizerContext = createContext<AudioVisualizerContextValue | null>(
+  null
+);
+
+/**
+ * Shares a single audio context and a registry of sources between the visualizers inside it.
+ * Browsers limit the number of audio contexts, so pages with many visualizers
+ * should use a provider, and visualizers can show the same source with `sourceId`.
+ *
+ * @example
+ * ```tsx
+ * <AudioVisualizerProvider sources={{ song: "/song.mp3" }} pauseOthers>
+ *   <AudioVisualizer sourceId="song" />
+ *   <AudioVisualizer sourceId="song" mode="waveform" />
+ *   <AudioVisualizer src="/podcast.mp3" autoStart={false} />
+ * </AudioVisualizerProvider>
+ * ```
+ */
+const AudioVisualizerProvider: FC<AudioVisualizerProviderProps> = ({
+  children,
+  audioContext,
+  sources,
+  crossOrigin,
+  pauseOthers = false
+}) => {
+  /**
+   * The props are read when the hooks call the context,
+   * so the context value never changes and the hooks are not rendered again
+   */
+  const propsRef = useRef({ audioContext, sources, crossOrigin, pauseOthers });
+
+  propsRef.current = { audioContext, sources, crossOrigin, pauseOthers };
+
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  /**
+   * Whether the provider is mounted, see `useAudioAnalyser`
+   */
+  const mountedRef = useRef(false);
+
+  /**
+   * The audio elements created for the url sources, by id
+   */
+  const elementsRef = useRef(new Map<string, HTMLAudioElement>());
+
+  const playersRef = useRef(new Set<RefObject<AudioPlayer | null>>());
+
+  const valueRef = useRef<AudioVisualizerContextValue | null>(null);
+
+  if (!valueRef.current) {
+    valueRef.current = {
+      getAudioContext: () => {
+        if (propsRef.current.audioContext) return propsRef.current.audioContext;
+
+        if (!audioContextRef.current) {
+          audioContextRef.current = new AudioContext();
+        }
+
+        return audioContextRef.current;
+      },
+      getSource: id => {
+        const source = propsRef.current.sources?.[id];
+
+        if (!source) return null;
+
+        if (typeof source !== "string") return source;
+
+        let element = elementsRef.current.get(id);
+
+        if (!element) {
+          element = new Audio();
+
+          const { crossOrigin } = propsRef.current;
+
+          if (crossOrigin) element.crossOrigin = crossOrigin;
+          element.src = source;
+          elementsRef.current.set(id, element);
+        } else if (element.getAttribute("src") !== source) {
+          element.src = source;
+        }
+
+        return element;
+      },
+      registerPlayer: player => {
+        playersRef.current.add(player);
+
+        return () => {
+          playersRef.current.delete(player);
+        };
+      },
+      notifyPlaying: playing => {
+        if (!propsRef.current.pauseOthers) return;
+
+        const element = playing.current?.getAudioElement() ?? null;
+
+        playersRef.current.forEach(player => {
+          const current = player.current;
+
+          if (player === playing || current?.audioState !== "playing") return;
+
+          /**
+           * The visualizers of the same source are not paused,
+           * since that would pause the source that just started
+           */
+          if (element && current.getAudioElement() === element) return;
+
+          current.pause();
+        });
+      }
+    };
+  }
+
+  /**
+   * This useEffect hook is responsible for removing the audio elements
+   * of the sources that are not in the `sources` prop anymore
+   */
+  useEffect(() => {
+    elementsRef.current.forEach((element, id) => {
+      if (typeof sources?.[id] === "string") return;
+
+      element.pause();
+      elementsRef.current.delete(id);
+    });
+  }, [sources]);
+
+  /**
+   * This useEffect hook is responsible for pausing the sources created by the provider
+   * when it is unmounted, then closing the audio context it created on the next task,
+   * unless it has been mounted again in the meantime, like in StrictMode
+   */
+  useEffect(() => {
+    const elements = elementsRef.current;
+
+    mountedRef.current = true;
+
+    return () => {
+      mountedRef.current = false;
+      elements.forEach(element => element.pause());
+
+      setTimeout(() => {
+        if (mountedRef.current) return;
+
+        elements.clear();
+        audioContextRef.current?.close();
+        audioContextRef.current = null;
+      });
+    };
+  }, []);
+
+  return (
+    <AudioVisualizerContext.Provider value={valueRef.current}>
+      {children}
+    </AudioVisualizerContext.Provider>
+  );
+};
+
+export { AudioVisualizerContext, AudioVisualizerProvider };
+export type { AudioPlayer };
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { createBarsState } from "./bars-state";
+import type { AudioAnalyserChannelData } from "./types";
+
+const createChannel = (levels: number[]): AudioAnalyserChannelData => ({
+  frequencyData: new Uint8Array(levels),
+  timeDomainData: new Float32Array(levels.length * 2),
+  levels: new Float32Array(levels)
+});
+
+describe("createBarsState", () => {
+  it("creates the bands again only when the analyser data changes shape", () => {
+    const bars = createBarsState(
+      { frequencyScale: "linear", bandAggregation: "peak" },
+      { attack: 0, release: 0 }
+    );
+
+    expect(bars.update([createChannel([0, 100, 200, 50])], 44100, 0)).toBe(true);
+    expect(bars.update([createChannel([0, 100, 200, 50])], 44100, 16)).toBe(false);
+    expect(Array.from(bars.values[0])).toEqual([0, 100, 200, 50]);
+
+    expect(
+      bars.update([createChannel([1, 2]), createChannel([3, 4])], 44100, 16)
+    ).toBe(true);
+    expect(bars.values).toHaveLength(2);
+    expect(bars.bands).toHaveLength(2);
+  });
+
+  it("eases the values, and drops the peak caps on the idle frame", () => {
+    const bars = createBarsState(
+      { frequencyScale: "linear", bandAggregation: "peak" },
+      { attack: 100, release: 100 }
+    );
+
+    bars.update([createChannel([0, 0])], 44100, 0);
+    bars.update([createChannel([200, 200])], 44100, 100);
+
+    expect(bars.values[0][0]).toBeGreaterThan(0);
+    expect(bars.values[0][0]).toBeLessThan(200);
+
+    bars.peaks[0].fill(50);
+    bars.holds[0].fill(1000);
+
+    bars.update([createChannel([0, 0])], 44100, 16, "rest");
+
+    expect(Array.from(bars.values[0])).toEqual([0, 0]);
+    expect(Array.from(bars.peaks[0])).toEqual([0, 0]);
+    expect(Array.from(bars.holds[0])).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,108 @@
+import { applyEnvelope } from "./envelope";
+import {
+  aggregateBands,
+  createFrequencyBands,
+  type FrequencyBand,
+  type FrequencyBandsOptions
+} from "./frequency-bands";
+import type { BarsEnvelopeOptions } from "./scripts";
+import type { AudioAnalyserChannelData, AudioAnalyserFrame } from "./types";
+
+/**
+ * The state of each bar of each channel, shared by the bars renderers:
+ * the aggregated analyser values, the smoothed values drawn,
+ * and the positions of the peak caps with the times until which they are held
+ */
+type BarsState = {
+  bands: FrequencyBand[];
+  targets: Float32Array[];
+  values: Float32Array[];
+  peaks: Float32Array[];
+  holds: Float32Array[];
+
+  /**
+   * Updates the bars from the data of a frame
+   *
+   * @param channels The data of each channel
+   * @param sampleRate The sample rate of the audio context
+   * @param elapsed The time elapsed since the last drawn frame, in milliseconds
+   * @param idle Whether the frame is the idle frame, drawn at rest
+   * @returns Whether the bands have been created again, with new arrays
+   */
+  update: (
+    channels: AudioAnalyserChannelData[],
+    sampleRate: number,
+    elapsed: number,
+    idle?: AudioAnalyserFrame["idle"]
+  ) => boolean;
+};
+
+/**
+ * Creates the state of the bars, for `createBarsRenderer`, `createSvgBarsRenderer`
+ * and `createWebGLBarsRenderer`.
+ * The bands only depend on the fftSize and the sample rate,
+ * so they are computed again only when one of them (or the number of channels) changes
+ *
+ * @param bandsOptions How the analyser bins are grouped into bands
+ * @param envelopeOptions How the bars rise and fall
+ * @returns The state of the bars
+ */
+function createBarsState(
+  bandsOptions: FrequencyBandsOptions,
+  { attack, release }: Pick<BarsEnvelopeOptions, "attack" | "release">
+): BarsState {
+  let bandsKey = "";
+
+  const state: BarsState = {
+    bands: [],
+    targets: [],
+    values: [],
+    peaks: [],
+    holds: [],
+    update: (channels, sampleRate, elapsed, idle) => {
+      const binCount = channels[0].frequencyData.length;
+      const key = `${binCount}:${sampleRate}:${channels.length}`;
+      const changed = bandsKey !== key;
+
+      if (changed) {
+        bandsKey = key;
+
+        const bands = createFrequencyBands(binCount, sampleRate, bandsOptions);
+
+        state.bands = bands;
+        state.targets = channels.map(() => new Float32Array(bands.length));
+        state.values = channels.map(() => new Float32Array(bands.length));
+        state.peaks = channels.map(() => new Float32Array(bands.length));
+        state.holds = channels.map(() => new Float32Array(bands.length));
+      }
+
+      const { bands, targets, values, peaks, holds } = state;
+
+      /**
+       * The idle frame is drawn at rest right away, without easing,
+       * and the bars rise from there on resume
+       */
+      if (idle) {
+        [peaks, holds].flat().forEach(array => array.fill(0));
+      }
+
+      channels.forEach(({ levels }, i) => {
+        aggregateBands(levels, bands, bandsOptions.bandAggregation, targets[i]);
+        applyEnvelope(
+          values[i],
+          targets[i],
+          elapsed,
+          idle ? 0 : attack,
+          idle ? 0 : release
+        );
+      });
+
+      return changed;
+    }
+  };
+
+  return state;
+}
+
+export { createBarsState };
+export type { BarsState };
@@ -0,0 +1,223 @@
+import type { AudioAnalyserFrame, BeatBand, BeatEvent } from "./types";
+
+/**
+ * How long the spectral flux is remembered to compute the adaptive threshold, in milliseconds
+ */
+const FLUX_WINDOW = 1000;
+
+/**
+ * The shortest time between two beats, in milliseconds (300 BPM)
+ */
+const MIN_BEAT_INTERVAL = 200;
+
+/**
+ * How long the beats are remembered to estimate the tempo, in milliseconds
+ */
+const TEMPO_WINDOW = 8000;
+
+/**
+ * The tempo is folded into this range by doubling or halving it, in BPM
+ */
+const MIN_TEMPO = 70;
+const MAX_TEMPO = 180;
+
+/**
+ * How fast the beat pulse decays, in milliseconds.
+ * After this time, the pulse has lost about 63% of its strength
+ */
+const PULSE_DECAY = 150;
+
+/**
+ * The frequency range of each named beat band, in Hz
+ * @see BeatBand
+ */
+const BEAT_BANDS: Record<Exclude<BeatBand, "full">, [number, number]> = {
+  low: [20, 150],
+  mid: [150, 2000],
+  high: [2000, 20000]
+};
+
+/**
+ * Gets the range of analyser bins covered by a beat band
+ *
+ * @param band The band to detect beats in
+ * @param binCount The number of frequency bins
+ * @param sampleRate The sample rate of the audio context
+ * @returns The first and last (excluded) bins of the band, at least one bin wide
+ */
+function getBeatBandBins(
+  band: BeatBand | [number, number],
+  binCount: number,
+  sampleRate: number
+): [number, number] {
+  if (band === "full") return [0, binCount];
+
+  const [min, max] = typeof band === "string" ? BEAT_BANDS[band] : band;
+  const binWidth = sampleRate / 2 / binCount;
+
+  const start = Math.min(Math.floor(min / binWidth), binCount - 1);
+  const end = Math.min(Math.ceil(max / binWidth), binCount);
+
+  return [start, Math.max(end, start + 1)];
+}
+
+/**
+ * Creates an onset detector that uses the spectral flux of the frames:
+ * the sum of the increases of every bin of the band since the previous frame.
+ * A beat is detected when the flux goes above the average of the last second,
+ * multiplied by `threshold`, so the detector adapts to the loudness of the music.
+ *
+ * @returns A function that reads a frame and returns the strength of the beat
+ * from 0 to 1, or 0 when there is no beat in this frame
+ */
+function createBeatDetector() {
+  let previous = new Float32Array(0);
+  let history: { timestamp: number; flux: number }[] = [];
+  let lastBeat = -Infinity;
+  let lastTimestamp = -Infinity;
+
+  return (
+    { frequencyData, sampleRate, timestamp }: AudioAnalyserFrame,
+    band: BeatBand | [number, number],
+    threshold: number
+  ): number => {
+    /**
+     * After a pause, or when the analyser is resized,
+     * the previous frame cannot be compared with this one
+     */
+    if (
+      timestamp - lastTimestamp > FLUX_WINDOW ||
+      previous.length !== frequencyData.length
+    ) {
+      previous = Float32Array.from(frequencyData);
+      history = [];
+      lastTimestamp = timestamp;
+
+      return 0;
+    }
+
+    lastTimestamp = timestamp;
+
+    const [start, end] = getBeatBandBins(band, frequencyData.length, sampleRate);
+
+    let flux = 0;
+
+    for (let i = start; i < end; i++) {
+      flux += Math.max(frequencyData[i] - previous[i], 0);
+    }
+
+    flux /= (end - start) * 255;
+    previous.set(frequencyData);
+
+    history = history.filter(entry => timestamp - entry.timestamp < FLUX_WINDOW);
+
+    const average =
+      history.reduce((sum, entry) => sum + entry.flux, 0) / (history.length || 1);
+
+    history.push({ timestamp, flux });
+
+    const limit = average * threshold;
+
+    if (limit <= 0 || flux <= limit || timestamp - lastBeat < MIN_BEAT_INTERVAL) {
+      return 0;
+    }
+
+    lastBeat = timestamp;
+
+    return Math.min((flux - limit) / limit, 1);
+  };
+}
+
+/**
+ * Creates a tempo estimator, that takes the median interval between the beats
+ * of the last few seconds
+ *
+ * @returns A function that records a beat and returns the estimated tempo in BPM,
+ * or null until enough beats have been recorded
+ */
+function createTempoEstimator() {
+  let beats: number[] = [];
+
+  return (timestamp: number): number | null => {
+    beats = [...beats.filter(beat => timestamp - beat < TEMPO_WINDOW), timestamp];
+
+    if (beats.length < 4) return null;
+
+    const intervals = beats
+      .slice(1)
+      .map((beat, i) => beat - beats[i])
+      .sort((a, b) => a - b);
+
+    let tempo = 60000 / intervals[Math.floor(intervals.length / 2)];
+
+    while (tempo < MIN_TEMPO) tempo *= 2;
+    while (tempo > MAX_TEMPO) tempo /= 2;
+
+    return Math.round(tempo);
+  };
+}
+
+/**
+ * Decays the beat pulse towards 0, or raises it to the strength of a new beat
+ *
+ * @param pulse The current pulse
+ * @param strength The strength of the beat of this frame, 0 when there is none
+ * @param elapsed The time elapsed since the last frame, in milliseconds
+ * @returns The new pulse, from 0 to 1
+ */
+function updateBeatPulse(pulse: number, strength: number, elapsed: number): number {
+  return Math.max(pulse * Math.exp(-elapsed / PULSE_DECAY), strength);
+}
+
+/**
+ * The options of the beat tracker, read on every frame so they can change while it runs
+ */
+type BeatTrackerOptions = {
+  band: BeatBand | [number, number];
+  threshold: number;
+  onBeat?: (beat: BeatEvent) => void;
+  onTempoChange?: (bpm: number) => void;
+
+  /**
+   * Gets the current time of the audio, in seconds
+   */
+  getTime: () => number;
+};
+
+/**
+ * Creates a beat tracker, that detects the beats of each frame,
+ * sets the beat pulse of the frame and estimates the tempo
+ *
+ * @returns A function that reads a frame before it is passed to the listeners
+ */
+function createBeatTracker() {
+  const detectBeat = createBeatDetector();
+  const estimateTempo = createTempoEstimator();
+
+  let tempo: number | null = null;
+  let lastTimestamp: number | null = null;
+
+  return (frame: AudioAnalyserFrame, options: BeatTrackerOptions) => {
+    const { band, threshold, onBeat, onTempoChange, getTime } = options;
+
+    const strength = detectBeat(frame, band, threshold);
+    const elapsed = lastTimestamp === null ? 0 : frame.timestamp - lastTimestamp;
+
+    lastTimestamp = frame.timestamp;
+    frame.beat = updateBeatPulse(frame.beat, strength, elapsed);
+
+    if (strength === 0) return;
+
+    onBeat?.({ time: getTime(), strength, band });
+
+    const bpm = estimateTempo(frame.timestamp);
+
+    if (bpm !== null && bpm !== tempo) {
+      tempo = bpm;
+      onTempoChange?.(bpm);
+    }
+  };
+}
+
+export { createBeatTracker };
+export type { BeatTrackerOptions };
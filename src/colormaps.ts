@@ -0,0 +1,370 @@
+import type {
+  Colormap,
+  ColormapName,
+  ColormapOptions,
+  CustomBarColorArg,
+  CustomBarColorContext
+} from "./types";
+
+/**
+ * The colors of each built-in colormap, evenly spaced, from matplotlib
+ * @see ColormapName
+ */
+const colormaps: Record<ColormapName, string[]> = {
+  viridis: [
+    "#440154",
+    "#482475",
+    "#414487",
+    "#355f8d",
+    "#2a788e",
+    "#21918c",
+    "#22a884",
+    "#44bf70",
+    "#7ad151",
+    "#bddf26",
+    "#fde725"
+  ],
+  magma: [
+    "#000004",
+    "#140e36",
+    "#3b0f70",
+    "#641a80",
+    "#8c2981",
+    "#b73779",
+    "#de4968",
+    "#f7705c",
+    "#fe9f6d",
+    "#fecf92",
+    "#fcfdbf"
+  ],
+  inferno: [
+    "#000004",
+    "#160b39",
+    "#420a68",
+    "#6a176e",
+    "#932667",
+    "#bc3754",
+    "#dd513a",
+    "#f37819",
+    "#fca50a",
+    "#f6d746",
+    "#fcffa4"
+  ]
+};
+
+/**
+ * The number of colors sampled from a colormap, for the bars with a single color
+ */
+const TABLE_SIZE = 256;
+
+/**
+ * The gradients built for a canvas size, see `createColormap`
+ */
+type GradientCache = {
+  key: string;
+  canvas: CanvasGradient | null;
+  bars: Map<number, CanvasGradient>;
+};
+
+/**
+ * Gets the stops of a colormap, with their offsets
+ *
+ * @param colormap The colormap
+ * @returns The offset, from 0 to 1, and the color of each stop
+ */
+function getColormapStops(colormap: Colormap): [number, string][] {
+  const colors = typeof colormap === "string" ? colormaps[colormap] : colormap;
+
+  return colors.map((stop, i) =>
+    typeof stop === "string"
+      ? [colors.length > 1 ? i / (colors.length - 1) : 0, stop]
+      : stop
+  );
+}
+
+/**
+ * Adds the stops of a colormap to a gradient
+ *
+ * @param gradient The gradient to add the stops to
+ * @param stops The stops of the colormap
+ * @param mirrored Whether the colormap starts from the middle of the gradient
+ * and goes to both ends, for the bars of the center layout
+ * @returns The gradient
+ */
+function addColormapStops(
+  gradient: CanvasGradient,
+  stops: [number, string][],
+  mirrored = false
+): CanvasGradient {
+  stops.forEach(([offset, color]) => {
+    if (mirrored) {
+      gradient.addColorStop(0.5 - offset / 2, color);
+      gradient.addColorStop(0.5 + offset / 2, color);
+    } else {
+      gradient.addColorStop(offset, color);
+    }
+  });
+
+  return gradient;
+}
+
+/**
+ * Samples a colormap, by drawing it on a canvas, so the stops can be any CSS color
+ *
+ * @param stops The stops of the colormap
+ * @returns The red, green, blue and alpha bytes of each of the 256 colors,
+ * or null without a canvas
+ */
+function getColormapData(stops: [number, string][]): Uint8ClampedArray | null {
+  const canvas =
+    typeof OffscreenCanvas !== "undefined"
+      ? new OffscreenCanvas(TABLE_SIZE, 1)
+      : Object.assign(document.createElement("canvas"), {
+          width: TABLE_SIZE,
+          height: 1
+        });
+
+  const ctx = canvas.getContext("2d", { willReadFrequently: true }) as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+
+  if (!ctx) return null;
+
+  ctx.fillStyle = addColormapStops(
+    ctx.createLinearGradient(0, 0, TABLE_SIZE, 0),
+    stops
+  );
+  ctx.fillRect(0, 0, TABLE_SIZE, 1);
+
+  return ctx.getImageData(0, 0, TABLE_SIZE, 1).data;
+}
+
+/**
+ * Samples a colormap into a table of colors
+ *
+ * @param stops The stops of the colormap
+ * @returns The colors of the table, or the colors of the stops without a canvas
+ */
+function createColormapTable(stops: [number, string][]): string[] {
+  const data = getColormapData(stops);
+
+  if (!data) return stops.map(([, color]) => color);
+
+  return Array.from(
+    { length: TABLE_SIZE },
+    (_, i) =>
+      `rgba(${data[i * 4]}, ${data[i * 4 + 1]}, ${data[i * 4 + 2]}, ${
+        data[i * 4 + 3] / 255
+      })`
+  );
+}
+
+/**
+ * Gets the length the bars can grow to
+ *
+ * @param context Where the bars are drawn
+ * @returns The height of the canvas, its width in the vertical layout,
+ * or the space around the inner circle in the radial layout
+ */
+function getBarsLength({
+  canvasWidth,
+  canvasHeight,
+  layout,
+  radius
+}: CustomBarColorContext): number {
+  switch (layout) {
+    case "vertical":
+      return canvasWidth;
+    case "radial":
+      return Math.max(Math.min(canvasWidth, canvasHeight) / 2 - radius, 0);
+    default:
+      return canvasHeight;
+  }
+}
+
+/**
+ * Creates a gradient of a colormap along the bars, from their base
+ *
+ * @param ctx The 2D context of the canvas
+ * @param stops The stops of the colormap
+ * @param context Where the bars are drawn
+ * @param length The length of the gradient
+ * @returns The gradient, in the coordinates the bars are drawn in
+ */
+function createAlongGradient(
+  ctx: CanvasRenderingContext2D,
+  stops: [number, string][],
+  { canvasHeight, layout, radius }: CustomBarColorContext,
+  length: number
+): CanvasGradient {
+  switch (layout) {
+    case "top":
+      return addColormapStops(ctx.createLinearGradient(0, 0, 0, length), stops);
+
+    case "center": {
+      const centerY = canvasHeight / 2;
+
+      return addColormapStops(
+        ctx.createLinearGradient(0, centerY - length / 2, 0, centerY + length / 2),
+        stops,
+        true
+      );
+    }
+
+    case "vertical":
+      return addColormapStops(ctx.createLinearGradient(0, 0, length, 0), stops);
+
+    /**
+     * The radial bars are drawn translated to the center of the canvas and rotated,
+     * which leaves a gradient centered on the origin unchanged
+     */
+    case "radial":
+      return addColormapStops(
+        ctx.createRadialGradient(0, 0, radius, 0, 0, radius + length),
+        stops
+      );
+
+    default:
+      return addColormapStops(
+        ctx.createLinearGradient(0, canvasHeight, 0, canvasHeight - length),
+        stops
+      );
+  }
+}
+
+/**
+ * Creates a gradient of a colormap across the bars, from the lowest frequency
+ *
+ * @param ctx The 2D context of the canvas
+ * @param stops The stops of the colormap
+ * @param context Where the bars are drawn, in a layout other than radial
+ * @returns The gradient, in the coordinates the bars are drawn in
+ */
+function createAcrossGradient(
+  ctx: CanvasRenderingContext2D,
+  stops: [number, string][],
+  { canvasWidth, canvasHeight, layout }: CustomBarColorContext
+): CanvasGradient {
+  return addColormapStops(
+    layout === "vertical"
+      ? ctx.createLinearGradient(0, 0, 0, canvasHeight)
+      : ctx.createLinearGradient(0, 0, canvasWidth, 0),
+    stops
+  );
+}
+
+/**
+ * Creates a `barColor` function that colors the bars with a colormap
+ * The single colors are sampled from a table built once, and the gradients
+ * are built once per canvas size (and per bar height for the "bar" gradients).
+ * The gradients need the 2D canvas, so the bars get single colors in the SVG renderer.
+ *
+ * @param colormap The colormap, built-in or a list of colors
+ * @param options How the colormap is mapped to the bars
+ * @returns A function to pass as `barColor`
+ * @example
+ * ```tsx
+ * const barColor = createColormap("magma", { gradient: "canvas" });
+ *
+ * <AudioVisualizer src={src} barColor={barColor} />
+ * ```
+ */
+function createColormap(
+  colormap: Colormap,
+  { mapping = "height", gradient = "none", period = 4000 }: ColormapOptions = {}
+): CustomBarColorArg {
+  const stops = getColormapStops(colormap);
+
+  let table: string[] | null = null;
+
+  const caches = new WeakMap<CanvasRenderingContext2D, GradientCache>();
+
+  const sample = (value: number) => {
+    if (!table) table = createColormapTable(stops);
+
+    return table[Math.round(Math.min(Math.max(value, 0), 1) * (table.length - 1))];
+  };
+
+  /**
+   * Gets the gradients of the canvas size, dropping the ones of the previous size
+   */
+  const getCache = (
+    ctx: CanvasRenderingContext2D,
+    context: CustomBarColorContext
+  ) => {
+    const key = `${context.canvasWidth}:${context.canvasHeight}:${context.layout}:${context.radius}`;
+
+    let cache = caches.get(ctx);
+
+    if (!cache || cache.key !== key) {
+      cache = { key, canvas: null, bars: new Map() };
+      caches.set(ctx, cache);
+    }
+
+    return cache;
+  };
+
+  return (barHeight, bufferLength, index, _frequency, _beat, context) => {
+    const { ctx, layout } = context;
+    const length = getBarsLength(context);
+
+    if (ctx && gradient !== "none") {
+      if (mapping === "height") {
+        const cache = getCache(ctx, context);
+
+        if (gradient === "canvas") {
+          if (!cache.canvas)
+            cache.canvas = createAlongGradient(ctx, stops, context, length);
+
+          return cache.canvas;
+        }
+
+        const key = Math.round(barHeight);
+
+        let barGradient = cache.bars.get(key);
+
+        if (!barGradient) {
+          barGradient = createAlongGradient(ctx, stops, context, key);
+          cache.bars.set(key, barGradient);
+        }
+
+        return barGradient;
+      }
+
+      /**
+       * The position of the radial bars depends on their angles,
+       * so they get single colors
+       */
+      if (mapping === "frequency" && gradient === "canvas" && layout !== "radial") {
+        const cache = getCache(ctx, context);
+
+        if (!cache.canvas) cache.canvas = createAcrossGradient(ctx, stops, context);
+
+        return cache.canvas;
+      }
+    }
+
+    switch (mapping) {
+      case "frequency": {
+        return sample(bufferLength > 1 ? index / (bufferLength - 1) : 0);
+      }
+
+      /**
+       * The colors go back and forth through the colormap,
+       * since most colormaps do not wrap around
+       */
+      case "time": {
+        const phase = (performance.now() / period + index / bufferLength) % 1;
+
+        return sample(1 - Math.abs(2 * phase - 1));
+      }
+
+      default: {
+        return sample(length > 0 ? barHeight / length : 0);
+      }
+    }
+  };
+}
+
+export { colormaps, createColormap, getColormapData, getColormapStops };
@@ -0,0 +1,214 @@
+import type {
+  AnalyserPosition,
+  CompressorOptions,
+  EqualizerBand,
+  EqualizerPreset
+} from "./types";
+
+/**
+ * The center frequencies of the bands of the presets, in Hz
+ */
+const PRESET_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+/**
+ * The Q of the peaking bands of the presets, about one octave wide
+ */
+const PRESET_Q = 1.41;
+
+/**
+ * Creates the 10 bands of a preset from the gain of each band.
+ * The lowest band is a low shelf, the highest a high shelf, and the others are peaking.
+ *
+ * @param gains The gain of each band, in dB
+ * @returns The bands of the preset
+ */
+function createPresetBands(gains: number[]): EqualizerBand[] {
+  return PRESET_FREQUENCIES.map((frequency, i) => ({
+    type:
+      i === 0
+        ? "lowshelf"
+        : i === PRESET_FREQUENCIES.length - 1
+          ? "highshelf"
+          : "peaking",
+    frequency,
+    gain: gains[i],
+    Q: PRESET_Q
+  }));
+}
+
+/**
+ * The bands of each equalizer preset
+ * @see EqualizerPreset
+ */
+const equalizerPresets: Record<EqualizerPreset, EqualizerBand[]> = {
+  flat: createPresetBands([0, 0, 0, 0, 0, 0, 0, 0, 0, 0]),
+  bass: createPresetBands([6, 5, 4, 2, 0, 0, 0, 0, 0, 0]),
+  treble: createPresetBands([0, 0, 0, 0, 0, 0, 2, 4, 5, 6]),
+  vocal: createPresetBands([-2, -2, -1, 1, 3, 4, 3, 1, 0, -1]),
+  rock: createPresetBands([5, 4, 3, 1, -1, -1, 1, 3, 4, 5]),
+  pop: createPresetBands([-1, 1, 3, 4, 3, 0, -1, -1, 1, 2]),
+  jazz: createPresetBands([3, 2, 1, 2, -1, -1, 0, 1, 2, 3]),
+  classical: createPresetBands([4, 3, 2, 1, -1, -1, 0, 2, 3, 4]),
+  electronic: createPresetBands([5, 4, 1, 0, -2, 2, 1, 1, 4, 5])
+};
+
+/**
+ * The effects applied between the audio source and the speakers
+ */
+type EffectsOptions = {
+  equalizer: EqualizerBand[] | EqualizerPreset;
+  gain: number;
+  pan: number;
+  compressor: boolean | CompressorOptions;
+  analyserPosition: AnalyserPosition;
+};
+
+/**
+ * The nodes between the audio source and the speakers, created with `createEffectsChain`
+ */
+type EffectsChain = {
+  /**
+   * The node the audio sources are connected to
+   */
+  input: GainNode;
+  update: (options: EffectsOptions) => void;
+  setAudible: (audible: boolean) => void;
+  dispose: () => void;
+};
+
+/**
+ * The time constant used to move the parameters to their new value,
+ * short enough to sound instant, long enough to avoid clicks
+ */
+const PARAM_TIME_CONSTANT = 0.01;
+
+/**
+ * Creates the effects chain of a visualizer:
+ * input -> equalizer filters -> gain -> stereo panner -> compressor -> output.
+ * The analyser reads either the input or the output, and the output is only
+ * connected to the speakers when the chain is audible.
+ *
+ * Changing the options updates the nodes in place, and only reconnects them
+ * when the number of bands or the compressor is toggled, so the source keeps playing.
+ *
+ * @param audioContext The audio context to use
+ * @param analyser The analyser node that reads the signal
+ * @param options The effects to apply
+ * @returns The effects chain
+ */
+function createEffectsChain(
+  audioContext: BaseAudioContext,
+  analyser: AnalyserNode,
+  options: EffectsOptions
+): EffectsChain {
+  const input = audioContext.createGain();
+  const gain = audioContext.createGain();
+  const panner = audioContext.createStereoPanner();
+  const compressor = audioContext.createDynamicsCompressor();
+  const output = audioContext.createGain();
+
+  let filters: BiquadFilterNode[] = [];
+  let compressed = false;
+  let analyserPosition: AnalyserPosition | null = null;
+  let audible = false;
+
+  const setParam = (param: AudioParam, value: number) => {
+    param.setTargetAtTime(value, audioContext.currentTime, PARAM_TIME_CONSTANT);
+  };
+
+  const connect = () => {
+    [input, ...filters, gain, panner, compressor].forEach(node => node.disconnect());
+
+    const nodes: AudioNode[] = [input, ...filters, gain, panner];
+
+    if (compressed) nodes.push(compressor);
+
+    nodes.push(output);
+    nodes.reduce((previous, node) => previous.connect(node));
+
+    if (analyserPosition === "pre") input.connect(analyser);
+  };
+
+  const update = ({
+    equalizer,
+    gain: gainValue,
+    pan,
+    compressor: compressorOptions,
+    analyserPosition: position
+  }: EffectsOptions) => {
+    const bands =
+      typeof equalizer === "string" ? equalizerPresets[equalizer] : equalizer;
+
+    const shouldReconnect =
+      bands.length !== filters.length || !!compressorOptions !== compressed;
+
+    if (bands.length !== filters.length) {
+      filters.forEach(filter => filter.disconnect());
+      filters = bands.map(() => audioContext.createBiquadFilter());
+    }
+
+    bands.forEach((band, i) => {
+      filters[i].type = band.type ?? "peaking";
+
+      setParam(filters[i].frequency, band.frequency);
+      setParam(filters[i].gain, band.gain ?? 0);
+      setParam(filters[i].Q, band.Q ?? PRESET_Q);
+    });
+
+    setParam(gain.gain, gainValue);
+    setParam(panner.pan, pan);
+
+    if (compressorOptions) {
+      const settings: CompressorOptions =
+        compressorOptions === true ? {} : compressorOptions;
+      const { threshold, knee, ratio, attack, release } = settings;
+
+      setParam(compressor.threshold, threshold ?? -24);
+      setParam(compressor.knee, knee ?? 30);
+      setParam(compressor.ratio, ratio ?? 12);
+      setParam(compressor.attack, attack ?? 0.003);
+      setParam(compressor.release, release ?? 0.25);
+    }
+
+    compressed = !!compressorOptions;
+
+    if (shouldReconnect) connect();
+
+    if (position !== analyserPosition) {
+      if (analyserPosition) {
+        (analyserPosition === "pre" ? input : output).disconnect(analyser);
+      }
+
+      (position === "pre" ? input : output).connect(analyser);
+
+      analyserPosition = position;
+    }
+  };
+
+  connect();
+  update(options);
+
+  return {
+    input,
+    update,
+    setAudible: value => {
+      if (value === audible) return;
+
+      if (value) {
+        output.connect(audioContext.destination);
+      } else {
+        output.disconnect(audioContext.destination);
+      }
+
+      audible = value;
+    },
+    dispose: () => {
+      [input, ...filters, gain, panner, compressor, output].forEach(node =>
+        node.disconnect()
+      );
+    }
+  };
+}
+
+export { createEffectsChain, equalizerPresets };
+export type { EffectsChain, EffectsOptions };
@@ -0,0 +1,65 @@
+/**
+ * Moves each value towards its target, at a speed that only depends on the elapsed time,
+ * so the result is the same at any frame rate.
+ * After `attack` (rising) or `release` (falling) milliseconds,
+ * a value has covered about 63% of the distance to its target.
+ *
+ * @param values The current values, updated in place
+ * @param targets The values to move towards
+ * @param elapsed The time elapsed since the last update, in milliseconds
+ * @param attack The time constant used when a value rises, 0 to jump straight to the target
+ * @param release The time constant used when a value falls, 0 to jump straight to the target
+ */
+function applyEnvelope(
+  values: Float32Array,
+  targets: Float32Array,
+  elapsed: number,
+  attack: number,
+  release: number
+) {
+  for (let i = 0; i < values.length; i++) {
+    const time = targets[i] > values[i] ? attack : release;
+
+    values[i] =
+      time > 0
+        ? values[i] + (targets[i] - values[i]) * (1 - Math.exp(-elapsed / time))
+        : targets[i];
+  }
+}
+
+/**
+ * Updates a falling peak-hold cap.
+ * The cap jumps to the bar when the bar reaches it, stays there for `holdTime`,
+ * then falls at `fallSpeed` until the bar pushes it up again.
+ *
+ * @param peaks The current cap positions
+ * @param holds The times until which each cap is held, in milliseconds
+ * @param index The index of the cap to update
+ * @param height The current height of the bar
+ * @param timestamp The time of the current frame, in milliseconds
+ * @param elapsed The time elapsed since the last update, in milliseconds
+ * @param holdTime How long the cap stays at its peak, in milliseconds
+ * @param fallSpeed How fast the cap falls, in pixels per second
+ * @returns The new position of the cap
+ */
+function updatePeak(
+  peaks: Float32Array,
+  holds: Float32Array,
+  index: number,
+  height: number,
+  timestamp: number,
+  elapsed: number,
+  holdTime: number,
+  fallSpeed: number
+): number {
+  if (height >= peaks[index]) {
+    peaks[index] = height;
+    holds[index] = timestamp + holdTime;
+  } else if (timestamp > holds[index]) {
+    peaks[index] = Math.max(peaks[index] - (fallSpeed * elapsed) / 1000, height);
+  }
+
+  return peaks[index];
+}
+
+export { applyEnvelope, updatePeak };
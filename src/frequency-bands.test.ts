@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import {
+  createFrequencyBands,
+  getFrequencyPosition,
+  validateFrequencyRange
+} from "./frequency-bands";
+
+describe("createFrequencyBands", () => {
+  it("starts a logarithmic scale above 0 Hz", () => {
+    const bands = createFrequencyBands(1024, 44100, {
+      barCount: 32,
+      frequencyScale: "log",
+      minFrequency: 0,
+      bandAggregation: "peak"
+    });
+
+    expect(bands.every(({ frequency }) => Number.isFinite(frequency))).toBe(true);
+    expect(bands[0].frequency).toBeGreaterThan(20);
+  });
+
+  it("keeps a range emptied by the sample rate drawable", () => {
+    const options = {
+      barCount: 8,
+      frequencyScale: "linear" as const,
+      minFrequency: 30000,
+      bandAggregation: "peak" as const
+    };
+
+    expect(
+      createFrequencyBands(1024, 44100, options).every(({ frequency }) =>
+        Number.isFinite(frequency)
+      )
+    ).toBe(true);
+    expect(getFrequencyPosition(11025, 44100, options)).toBe(0.5);
+  });
+});
+
+describe("validateFrequencyRange", () => {
+  it("rejects a minFrequency that is not lower than maxFrequency", () => {
+    expect(() => validateFrequencyRange(20, 20000)).not.toThrow();
+    expect(() => validateFrequencyRange(5000, 5000)).toThrow(/frequency range/);
+    expect(() => validateFrequencyRange(-1)).toThrow(/minFrequency/);
+  });
+});
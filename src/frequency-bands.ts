@@ -0,0 +1,247 @@
+import type { BandAggregation, FrequencyScale } from "./types";
+
+/**
+ * A group of adjacent analyser bins drawn as a single bar
+ */
+type FrequencyBand = {
+  /**
+   * The index of the first bin of the band
+   */
+  start: number;
+
+  /**
+   * The index of the last bin of the band, inclusive
+   */
+  end: number;
+
+  /**
+   * The center frequency of the band, in Hz
+   */
+  frequency: number;
+};
+
+/**
+ * The options used to group the analyser bins into bands
+ */
+type FrequencyBandsOptions = {
+  barCount?: number;
+  frequencyScale: FrequencyScale;
+  minFrequency?: number;
+  maxFrequency?: number;
+  bandAggregation: BandAggregation;
+};
+
+/**
+ * The lowest frequency of a logarithmic scale when `minFrequency` is not set,
+ * since log(0) is not defined
+ */
+const MIN_LOG_FREQUENCY = 20;
+
+/**
+ * Tolerance used when mapping band edges to bins,
+ * so floating point errors do not spill a band into the next bin
+ */
+const EPSILON = 1e-6;
+
+/**
+ * Converts a frequency in Hz to a position on the given scale
+ *
+ * @param frequency The frequency in Hz
+ * @param scale The frequency scale
+ * @returns The position of the frequency on the scale
+ */
+function toScale(frequency: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case "log":
+      return Math.log10(frequency);
+    case "mel":
+      return 2595 * Math.log10(1 + frequency / 700);
+    case "bark":
+      return (26.81 * frequency) / (1960 + frequency) - 0.53;
+    default:
+      return frequency;
+  }
+}
+
+/**
+ * Converts a position on the given scale back to a frequency in Hz
+ *
+ * @param value The position on the scale
+ * @param scale The frequency scale
+ * @returns The frequency in Hz
+ */
+function fromScale(value: number, scale: FrequencyScale): number {
+  switch (scale) {
+    case "log":
+      return 10 ** value;
+    case "mel":
+      return 700 * (10 ** (value / 2595) - 1);
+    case "bark":
+      return (1960 * (value + 0.53)) / (26.28 - value);
+    default:
+      return value;
+  }
+}
+
+/**
+ * Makes sure the frequency range can be drawn
+ *
+ * @param minFrequency The lowest frequency shown, in Hz
+ * @param maxFrequency The highest frequency shown, in Hz
+ */
+function validateFrequencyRange(minFrequency?: number, maxFrequency?: number) {
+  if (minFrequency !== undefined && !(minFrequency >= 0)) {
+    throw new Error(
+      `Invalid minFrequency: ${minFrequency}. It must be a positive number`
+    );
+  }
+
+  if (maxFrequency !== undefined && !(maxFrequency > 0)) {
+    throw new Error(
+      `Invalid maxFrequency: ${maxFrequency}. It must be a positive number`
+    );
+  }
+
+  if (
+    minFrequency !== undefined &&
+    maxFrequency !== undefined &&
+    !(minFrequency < maxFrequency)
+  ) {
+    throw new Error(
+      `Invalid frequency range: ${minFrequency} to ${maxFrequency}. minFrequency must be lower than maxFrequency`
+    );
+  }
+}
+
+/**
+ * Gets the frequency range of the bands, on their scale
+ *
+ * @param sampleRate The sample rate of the audio context
+ * @param options The bands options
+ * @returns The lowest and highest positions on the scale
+ */
+function getScaleRange(
+  sampleRate: number,
+  {
+    frequencyScale,
+    minFrequency,
+    maxFrequency = sampleRate / 2
+  }: FrequencyBandsOptions
+): [number, number] {
+  const log = frequencyScale === "log";
+  const high = Math.min(maxFrequency, sampleRate / 2);
+
+  let low = Math.max(minFrequency ?? (log ? MIN_LOG_FREQUENCY : 0), 0);
+
+  /**
+   * A logarithmic scale cannot start at 0
+   */
+  if (log && low === 0) low = MIN_LOG_FREQUENCY;
+
+  /**
+   * The range left empty by the sample rate, e.g. when `minFrequency` is above
+   * the Nyquist frequency, starts a decade lower on a logarithmic scale, or at 0
+   */
+  if (!(low < high)) low = log ? high / 10 : 0;
+
+  return [toScale(low, frequencyScale), toScale(high, frequencyScale)];
+}
+
+/**
+ * Gets where a frequency is in the range of the bands, e.g. to draw an axis
+ *
+ * @param frequency The frequency in Hz
+ * @param sampleRate The sample rate of the audio context
+ * @param options The bands options
+ * @returns The position of the frequency, 0 at the lowest frequency and 1 at the highest
+ */
+function getFrequencyPosition(
+  frequency: number,
+  sampleRate: number,
+  options: FrequencyBandsOptions
+): number {
+  const [min, max] = getScaleRange(sampleRate, options);
+
+  return (toScale(frequency, options.frequencyScale) - min) / (max - min);
+}
+
+/**
+ * Splits the frequency range into bands of equal width on the given scale,
+ * and maps each band to the analyser bins it covers.
+ * Every band covers at least one bin, so narrow low frequency bands may share a bin.
+ *
+ * @param binCount The number of analyser bins (half the fftSize)
+ * @param sampleRate The sample rate of the audio context
+ * @param options The bands options
+ * @returns The bands, from the lowest to the highest frequency
+ */
+function createFrequencyBands(
+  binCount: number,
+  sampleRate: number,
+  options: FrequencyBandsOptions
+): FrequencyBand[] {
+  const { barCount = binCount, frequencyScale } = options;
+  const binWidth = sampleRate / 2 / binCount;
+
+  const [min, max] = getScaleRange(sampleRate, options);
+  const step = (max - min) / barCount;
+
+  const bands: FrequencyBand[] = [];
+
+  for (let i = 0; i < barCount; i++) {
+    const low = fromScale(min + step * i, frequencyScale);
+    const high = fromScale(min + step * (i + 1), frequencyScale);
+
+    const start = Math.min(Math.floor(low / binWidth + EPSILON), binCount - 1);
+    const end = Math.max(
+      Math.min(Math.ceil(high / binWidth - EPSILON) - 1, binCount - 1),
+      start
+    );
+
+    bands.push({
+      start,
+      end,
+      frequency: fromScale(min + step * (i + 0.5), frequencyScale)
+    });
+  }
+
+  return bands;
+}
+
+/**
+ * Aggregates the analyser data of each band into a single value
+ *
+ * @param data The analyser data, one value per bin
+ * @param bands The bands to aggregate
+ * @param aggregation Whether to take the peak or the average of the bins of a band
+ * @param out The array to write the values to, must be as long as `bands`
+ * @returns The `out` array
+ */
+function aggregateBands(
+  data: ArrayLike<number>,
+  bands: FrequencyBand[],
+  aggregation: BandAggregation,
+  out: Float32Array
+): Float32Array {
+  for (let i = 0; i < bands.length; i++) {
+    const { start, end } = bands[i];
+
+    let value = aggregation === "peak" ? -Infinity : 0;
+
+    for (let j = start; j <= end; j++) {
+      value = aggregation === "peak" ? Math.max(value, data[j]) : value + data[j];
+    }
+
+    out[i] = aggregation === "peak" ? value : value / (end - start + 1);
+  }
+
+  return out;
+}
+
+export {
+  aggregateBands,
+  createFrequencyBands,
+  getFrequencyPosition,
+  validateFrequencyRange
+};
+export type { FrequencyBand, FrequencyBandsOptions };
@@ -0,0 +1,126 @@
+import type { FrequencyDataFormat, FrequencyWeighting } from "./types";
+
+/**
+ * The options used to turn the analyser data into the levels drawn as bars
+ */
+type FrequencyLevelsOptions = {
+  dataFormat: FrequencyDataFormat;
+  gamma: number;
+  frequencyWeighting: FrequencyWeighting;
+};
+
+/**
+ * Gets the A-weighting of a frequency, as defined by IEC 61672-1
+ *
+ * @param frequency The frequency, in Hz
+ * @returns The gain to add to the level of the frequency, in decibels, 0 at 1 kHz
+ */
+function getAWeighting(frequency: number): number {
+  const f2 = frequency * frequency;
+
+  const gain =
+    (12194 ** 2 * f2 * f2) /
+    ((f2 + 20.6 ** 2) *
+      Math.sqrt((f2 + 107.7 ** 2) * (f2 + 737.9 ** 2)) *
+      (f2 + 12194 ** 2));
+
+  return 20 * Math.log10(gain) + 2;
+}
+
+/**
+ * Gets the level of silence in a data format
+ *
+ * @param analyser The analyser the levels are read from
+ * @param dataFormat The format of the levels
+ * @returns The lowest level: `minDecibels` in decibels, 0 otherwise
+ */
+function getSilentLevel(analyser: AnalyserNode, dataFormat: FrequencyDataFormat) {
+  return dataFormat === "float-db" ? analyser.minDecibels : 0;
+}
+
+/**
+ * Gets the range of the levels in a data format, to bring them from 0 to 1
+ *
+ * @param dataFormat The format of the levels
+ * @param minDecibels The `minDecibels` of the analyser
+ * @param maxDecibels The `maxDecibels` of the analyser
+ * @returns The level of silence and the highest level
+ */
+function getLevelRange(
+  dataFormat: FrequencyDataFormat,
+  minDecibels: number,
+  maxDecibels: number
+): [number, number] {
+  switch (dataFormat) {
+    case "float-db":
+      return [minDecibels, maxDecibels];
+    case "normalized":
+      return [0, 1];
+    default:
+      return [0, 255];
+  }
+}
+
+/**
+ * Function to create the reader of the levels of an analyser
+ * The decibels are read with `getFloatFrequencyData` when needed,
+ * and the weights of the bins are only computed again when the fftSize changes
+ *
+ * @returns A function that writes the levels of the analyser to `levels`,
+ * from the byte data already read for the frame
+ */
+function createLevelsReader() {
+  let decibels = new Float32Array(0);
+  let weights = new Float32Array(0);
+  let weightsKey = "";
+
+  return (
+    analyser: AnalyserNode,
+    frequencyData: Uint8Array,
+    levels: Float32Array,
+    { dataFormat, gamma, frequencyWeighting }: FrequencyLevelsOptions
+  ) => {
+    if (dataFormat === "byte") {
+      levels.set(frequencyData);
+      return;
+    }
+
+    const { minDecibels, maxDecibels, frequencyBinCount, fftSize } = analyser;
+    const { sampleRate } = analyser.context;
+
+    if (decibels.length !== frequencyBinCount) {
+      decibels = new Float32Array(frequencyBinCount);
+    }
+
+    analyser.getFloatFrequencyData(decibels);
+
+    if (
+      frequencyWeighting === "a" &&
+      weightsKey !== `${frequencyBinCount}:${sampleRate}`
+    ) {
+      weightsKey = `${frequencyBinCount}:${sampleRate}`;
+      weights = Float32Array.from({ length: frequencyBinCount }, (_, i) =>
+        getAWeighting((i * sampleRate) / fftSize)
+      );
+    }
+
+    for (let i = 0; i < frequencyBinCount; i++) {
+      const level = decibels[i] + (frequencyWeighting === "a" ? weights[i] : 0);
+
+      if (dataFormat === "float-db") {
+        levels[i] = Math.max(level, minDecibels);
+        continue;
+      }
+
+      const value = Math.min(
+        Math.max((level - minDecibels) / (maxDecibels - minDecibels), 0),
+        1
+      );
+
+      levels[i] = gamma === 1 ? value : value ** gamma;
+    }
+  };
+}
+
+export { createLevelsReader, getAWeighting, getLevelRange, getSilentLevel };
+export type { FrequencyLevelsOptions };
@@ -0,0 +1,211 @@
+import { act, cleanup, fireEvent, render } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AudioVisualizer } from "./index";
+import { installFakeWebAudio } from "./test/fake-web-audio";
+
+/**
+ * A ResizeObserver whose observations are sent by the test
+ */
+class FakeResizeObserver {
+  static instances: FakeResizeObserver[] = [];
+
+  readonly elements = new Set<Element>();
+
+  constructor(readonly callback: ResizeObserverCallback) {
+    FakeResizeObserver.instances.push(this);
+  }
+
+  observe(element: Element) {
+    this.elements.add(element);
+  }
+
+  disconnect() {
+    this.elements.clear();
+  }
+}
+
+/**
+ * Sends a CSS size to the observers of an element
+ */
+const resize = (element: Element, width: number, height: number) =>
+  act(() => {
+    FakeResizeObserver.instances
+      .filter(observer => observer.elements.has(element))
+      .forEach(observer =>
+        observer.callback(
+          [
+            {
+              target: element,
+              contentRect: { width, height }
+            } as ResizeObserverEntry
+          ],
+          observer as unknown as ResizeObserver
+        )
+      );
+  });
+
+/**
+ * A 2D context whose methods do nothing
+ */
+const context2D = new Proxy(
+  {},
+  { get: (target, key) => (key in target ? target[key as never] : () => {}) }
+);
+
+describe("AudioVisualizer", () => {
+  beforeEach(() => {
+    installFakeWebAudio();
+
+    FakeResizeObserver.instances = [];
+
+    vi.stubGlobal("ResizeObserver", FakeResizeObserver);
+    vi.stubGlobal("WebGL2RenderingContext", class WebGL2RenderingContext {});
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockImplementation(
+      (type: string) => (type === "2d" ? context2D : null) as never
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("resizes the new canvas when the renderer changes", () => {
+    const { container, rerender } = render(
+      <AudioVisualizer responsive pixelRatio={2} renderer="2d" />
+    );
+
+    rerender(<AudioVisualizer responsive pixelRatio={2} renderer="webgl" />);
+
+    const canvas = container.querySelector("canvas")!;
+
+    resize(canvas, 400, 100);
+
+    expect(canvas.width).toBe(800);
+    expect(canvas.height).toBe(200);
+  });
+
+  it("resizes the new canvas after the SVG bars", () => {
+    const { container, rerender } = render(
+      <AudioVisualizer responsive pixelRatio={2} renderer="svg" />
+    );
+
+    rerender(<AudioVisualizer responsive pixelRatio={2} renderer="2d" />);
+
+    const canvas = container.querySelector("canvas")!;
+
+    resize(canvas, 400, 100);
+
+    expect(canvas.width).toBe(800);
+    expect(canvas.height).toBe(200);
+  });
+
+  it("falls back to the main thread on a new canvas when the worker fails", () => {
+    const workers: { onerror: ((event: Partial<ErrorEvent>) => void) | null }[] = [];
+    const onError = vi.fn();
+
+    vi.stubGlobal("OffscreenCanvas", class OffscreenCanvas {});
+    vi.stubGlobal(
+      "Worker",
+      class Worker {
+        onerror = null;
+        postMessage = vi.fn();
+        terminate = vi.fn();
+
+        constructor() {
+          workers.push(this);
+        }
+      }
+    );
+
+    HTMLCanvasElement.prototype.transferControlToOffscreen = vi.fn();
+
+    try {
+      const { container } = render(<AudioVisualizer offscreen onError={onError} />);
+
+      const canvas = container.querySelector("canvas");
+
+      act(() =>
+        workers[0].onerror?.({
+          message: "Failed to load",
+          preventDefault: () => {}
+        })
+      );
+
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ kind: "worker" })
+      );
+      expect(container.querySelector("canvas")).not.toBe(canvas);
+      expect(workers).toHaveLength(1);
+    } finally {
+      delete (HTMLCanvasElement.prototype as Partial<HTMLCanvasElement>)
+        .transferControlToOffscreen;
+    }
+  });
+
+  it("keeps the first size of a canvas without a CSS size, and only then", () => {
+    /**
+     * The canvas is as large as its attributes, as without a CSS size
+     */
+    vi.spyOn(HTMLElement.prototype, "clientWidth", "get").mockImplementation(
+      function (this: HTMLElement) {
+        return (this as HTMLCanvasElement).width;
+      }
+    );
+    vi.spyOn(HTMLElement.prototype, "clientHeight", "get").mockImplementation(
+      function (this: HTMLElement) {
+        return (this as HTMLCanvasElement).height;
+      }
+    );
+
+    const { container } = render(<AudioVisualizer responsive pixelRatio={2} />);
+    const canvas = container.querySelector("canvas")!;
+
+    expect(canvas.style.width).toBe("300px");
+    expect(canvas.style.height).toBe("150px");
+  });
+
+  it("leaves the CSS size of a canvas alone when it doubles", () => {
+    const { container } = render(
+      <AudioVisualizer responsive pixelRatio={2} style={{ width: "100%" }} />
+    );
+    const canvas = container.querySelector("canvas")!;
+
+    resize(canvas, 300, 150);
+    resize(canvas, 600, 300);
+
+    expect(canvas.style.width).toBe("100%");
+    expect(canvas.style.height).toBe("");
+    expect(canvas.width).toBe(1200);
+  });
+
+  it("only lists the volume keys when they can change the volume", () => {
+    const onVolumeChange = vi.fn();
+
+    const { container, rerender } = render(
+      <AudioVisualizer keyboardControls volume={0.5} />
+    );
+    const canvas = container.querySelector("canvas")!;
+
+    expect(canvas.getAttribute("aria-keyshortcuts")).toBe(
+      "Space ArrowLeft ArrowRight"
+    );
+    expect(fireEvent.keyDown(canvas, { key: "-" })).toBe(true);
+
+    rerender(
+      <AudioVisualizer
+        keyboardControls
+        volume={0.5}
+        onVolumeChange={onVolumeChange}
+      />
+    );
+
+    expect(canvas.getAttribute("aria-keyshortcuts")).toBe(
+      "Space ArrowLeft ArrowRight Plus = -"
+    );
+    expect(fireEvent.keyDown(canvas, { key: "-" })).toBe(false);
+    expect(onVolumeChange).toHaveBeenCalledWith(0.4);
+  });
+});
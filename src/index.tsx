@@ -1,244 +1,871 @@
-import React, { useEffect, useRef, useState, type FC } from "react";
-import { createAnimationHandlers, load } from "./scripts";
-import type { AudioState, AudioVisualizerProps } from "./types";
-
-const AudioVisualizer: FC<AudioVisualizerProps> = ({
-  src,
-  audioState: audioStateProp,
-  onAudioStateChange: onAudioStateChangeProp,
-  timeFactor = 1000,
-  onTimeChange,
-  autoStart = true,
-  loop = false,
-  volume = 1,
-  stagger = 1,
-  fftSize = 256,
-  playbackRate = 1,
-  barWidth = (w, l) => w / l,
-  barHeight = h => h * 0.5,
-  barColor = (h, l, i) => `hsl(${(360 / l) * i}, ${h}%, 50%)`,
-  spaceBetweenBars = 1,
-  customDrawFunction = (ctx, { canvasHeight, barWidth, barHeight, x }) => {
-    ctx.fillRect(x, canvasHeight - barHeight, barWidth, barHeight);
+import React, {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+  type ForwardRefRenderFunction,
+  type KeyboardEvent,
+  type SVGProps
+} from "react";
+import {
+  createBarsRenderer,
+  createLiveStyle,
+  createWaveformRenderer,
+  defaultBarColor,
+  defaultBarHeight,
+  defaultBarWidth,
+  drawBar,
+  drawWaveform,
+  getDefaultBarHeight,
+  keepIntrinsicSize,
+  resizeCanvas,
+  type RendererStyleOptions
+} from "./scripts";
+import {
+  defaultAriaStateLabels,
+  KEYBOARD_SHORTCUTS,
+  REDUCED_MOTION_STAGGER,
+  visuallyHiddenStyle,
+  VOLUME_SHORTCUTS
+} from "./accessibility";
+import { AudioVisualizerProvider } from "./audio-visualizer-provider";
+import { colormaps, createColormap } from "./colormaps";
+import { equalizerPresets } from "./effects";
+import { validateFrequencyRange } from "./frequency-bands";
+import { getLevelRange } from "./frequency-levels";
+import { computeWaveformPeaks } from "./overview";
+import { createSpectrogramRenderer } from "./spectrogram-renderer";
+import {
+  createSvgBarsMarkup,
+  createSvgBarsRenderer,
+  getPeaksPerBar
+} from "./svg-renderer";
+import { createWebGLBarsRenderer, isWebGLRendererSupported } from "./webgl-renderer";
+import {
+  acquireWorkerRenderer,
+  getWorkerConfig,
+  getWorkerRenderer,
+  isOffscreenCanvasSupported,
+  releaseWorkerRenderer,
+  type WorkerRenderer
+} from "./worker-renderer";
+import type { AudioVisualizerHandle, AudioVisualizerProps } from "./types";
+import { useAudioAnalyser } from "./use-audio-analyser";
+import { useDevicePixelRatio } from "./use-device-pixel-ratio";
+import { usePrefersReducedMotion } from "./use-prefers-reduced-motion";
+import { WaveformOverview } from "./waveform-overview";
+
+const renderAudioVisualizer: ForwardRefRenderFunction<
+  AudioVisualizerHandle,
+  AudioVisualizerProps
+> = (
+  {
+    src,
+    crossOrigin,
+    mediaElement,
+    sourceId,
+    audioState,
+    onAudioStateChange,
+    timeFactor,
+    onTimeChange,
+    autoStart,
+    loop,
+    volume: volumeProp,
+    mode: modeProp = "bars",
+    stagger: staggerProp = 1,
+    fftSize,
+    minDecibels = -100,
+    maxDecibels = -30,
+    smoothingTimeConstant,
+    dataFormat = "byte",
+    gamma,
+    frequencyWeighting,
+    channels,
+    playbackRate,
+    playlist,
+    crossfade,
+    shuffle,
+    repeat,
+    onTrackChange,
+    equalizer,
+    gain,
+    pan,
+    compressor,
+    analyserPosition,
+    onBeat,
+    onTempoChange,
+    beatBand,
+    beatThreshold,
+    idleFrame,
+    barWidth = defaultBarWidth,
+    barHeight: barHeightProp = defaultBarHeight,
+    barColor = defaultBarColor,
+    spaceBetweenBars = 1,
+    barCount: barCountProp,
+    frequencyScale = "linear",
+    minFrequency,
+    maxFrequency,
+    bandAggregation: bandAggregationProp = "peak",
+    customDrawFunction = drawBar,
+    layout = "bottom",
+    stereoLayout = "mirrored",
+    attack = 0,
+    release = 0,
+    peakCaps = false,
+    peakHoldTime = 500,
+    peakFallSpeed = 100,
+    peakHeight = 2,
+    peakColor,
+    innerRadius,
+    startAngle = -Math.PI / 2,
+    sweep = 2 * Math.PI,
+    direction = "clockwise",
+    waveformStyle = "line",
+    waveformColor = "white",
+    lineWidth = 2,
+    waveformScale = 1,
+    waveformTrigger = "none",
+    customWaveformDrawFunction = drawWaveform,
+    spectrogramDirection = "horizontal",
+    scrollSpeed = 1,
+    colormap = "viridis",
+    spectrogramAxes = false,
+    axisColor = "white",
+    ariaLabel,
+    ariaStateLabels,
+    reducedMotion = "user",
+    reducedMotionFallback = "low-frame-rate",
+    keyboardControls = false,
+    seekStep = 5,
+    volumeStep = 0.1,
+    onVolumeChange: onVolumeChangeProp,
+
+    onSourceLoaded,
+    onSourceEnded,
+    onSourcePaused,
+    onSourcePlaying,
+    onError,
+    canvasRef: canvasRefProp,
+    responsive = false,
+    offscreen = false,
+    pixelRatio: pixelRatioProp,
+    renderer = "2d",
+    fragmentShader,
+    barClassName,
+    ...props
   },
+  ref
+) => {
+  /**
+   * Create an internal volume, changed with the keyboard,
+   * used if the user does not provide their own.
+   * It is unset until the keyboard changes it, so external elements keep their volume
+   */
+  const [internalVolume, setInternalVolume] = useState<number>();
+
+  const volume = volumeProp ?? internalVolume;
+  const onVolumeChange = onVolumeChangeProp ?? setInternalVolume;
 
-  onSourceLoaded,
-  onSourceEnded,
-  onSourcePaused,
-  onSourcePlaying,
-  ...props
-}) => {
   /**
-   * Create the audio context and analyser node
+   * A controlled volume without `onVolumeChange` cannot be changed with the keyboard,
+   * so the volume keys are neither handled nor listed
    */
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
+  const volumeKeys = volumeProp === undefined || onVolumeChangeProp !== undefined;
 
   /**
-   * Create an internal state for the audio source,
-   * used if the user does not provide their own state
+   * When the motion is reduced, the visualization is drawn a few times per second,
+   * or replaced by a level meter: a single bar with the average level
    */
-  const [internalState, setInternalState] = useState<AudioState>("unset");
+  const prefersReducedMotion = usePrefersReducedMotion(reducedMotion === "user");
+  const motionReduced =
+    reducedMotion === "always" || (reducedMotion === "user" && prefersReducedMotion);
+  const levelMeter = motionReduced && reducedMotionFallback === "level-meter";
+
+  const mode = levelMeter ? "bars" : modeProp;
+  const stagger = motionReduced
+    ? Math.max(staggerProp, REDUCED_MOTION_STAGGER)
+    : staggerProp;
+  const barCount = levelMeter ? 1 : barCountProp;
+  const bandAggregation = levelMeter ? "average" : bandAggregationProp;
 
-  const audioState = audioStateProp ?? internalState;
-  const onAudioStateChange = onAudioStateChangeProp ?? setInternalState;
+  /**
+   * The audio source, its state and the analyser are handled by the hook,
+   * the component only draws the analyser data on the canvas
+   * @see useAudioAnalyser
+   */
+  const {
+    audioState: currentAudioState,
+    play,
+    resume,
+    pause,
+    stop,
+    seek,
+    next,
+    previous,
+    subscribe,
+    getAnalyser,
+    getAudioElement
+  } = useAudioAnalyser({
+    src,
+    crossOrigin,
+    mediaElement,
+    sourceId,
+    audioState,
+    onAudioStateChange,
+    timeFactor,
+    onTimeChange,
+    autoStart,
+    loop,
+    volume,
+    fftSize,
+    minDecibels,
+    maxDecibels,
+    smoothingTimeConstant,
+    dataFormat,
+    gamma,
+    frequencyWeighting,
+    channels,
+    playbackRate,
+    playlist,
+    crossfade,
+    shuffle,
+    repeat,
+    onTrackChange,
+    equalizer,
+    gain,
+    pan,
+    compressor,
+    analyserPosition,
+    onBeat,
+    onTempoChange,
+    beatBand,
+    beatThreshold,
+    idleFrame,
+    onSourceLoaded,
+    onSourceEnded,
+    onSourcePaused,
+    onSourcePlaying,
+    onError
+  });
 
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const barsRef = useRef<SVGGElement>(null);
 
   /**
-   * Create refs for the start and stop animation functions
-   * @see createAnimationHandlers in `scripts.ts`
+   * The `onError` prop, read when the worker fails,
+   * so it can change without replacing the renderer
    */
-  const startAnimationRef = useRef<(() => void) | null>(null);
-  const stopAnimationRef = useRef<(() => void) | null>(null);
+  const onErrorRef = useRef(onError);
+
+  onErrorRef.current = onError;
 
   /**
-   * This useEffect hook is responsible for creating the animation
-   * When any prop that affects the animation is changed, this hook
-   * will reset the animation
+   * Whether the worker could not be loaded or has thrown.
+   * The canvas is then drawn on the main thread, on a new canvas
+   * since the control of the previous one has been transferred
    */
-  useEffect(() => {
-    if (!canvasRef.current || !audioContextRef.current || !analyserRef.current)
-      return;
+  const [workerFailed, setWorkerFailed] = useState(false);
 
-    let alreadyRunning = false;
+  /**
+   * Plays, pauses, seeks and changes the volume with the keyboard,
+   * after the `onKeyDown` prop, which can prevent it
+   */
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!keyboardControls || e.defaultPrevented) return;
+
+    switch (e.key) {
+      case " ": {
+        if (currentAudioState === "playing") {
+          pause();
+        } else if (currentAudioState === "blocked") {
+          resume();
+        } else {
+          play();
+        }
+        break;
+      }
 
-    /**
-     * If there was an animation running and the audio is playing
-     * we should stop the animation and start it again to make changes
-     */
-    if (
-      startAnimationRef.current &&
-      stopAnimationRef.current &&
-      audioState === "playing"
-    ) {
-      stopAnimationRef.current();
-      alreadyRunning = true;
-    }
+      case "ArrowLeft":
+      case "ArrowRight": {
+        const element = getAudioElement();
 
-    analyserRef.current.fftSize = fftSize;
+        if (!element) return;
 
-    const [start, stop] = createAnimationHandlers(
-      analyserRef.current,
-      canvasRef.current,
-      stagger,
-      barWidth,
-      barHeight,
-      barColor,
-      spaceBetweenBars,
-      customDrawFunction
-    );
+        const time = Math.max(
+          element.currentTime + (e.key === "ArrowLeft" ? -seekStep : seekStep),
+          0
+        );
 
-    /**
-     * If the audio is playing, we should start the animation again
-     */
-    if (alreadyRunning) {
-      start();
+        seek(
+          Number.isFinite(element.duration) ? Math.min(time, element.duration) : time
+        );
+        break;
+      }
+
+      case "+":
+      case "=":
+      case "-": {
+        if (!volumeKeys) return;
+
+        onVolumeChange(
+          Math.min(
+            Math.max(
+              (volume ?? getAudioElement()?.volume ?? 1) +
+                (e.key === "-" ? -volumeStep : volumeStep),
+              0
+            ),
+            1
+          )
+        );
+        break;
+      }
+
+      default:
+        return;
     }
 
-    startAnimationRef.current = start;
-    stopAnimationRef.current = stop;
-  }, [analyserRef.current, stagger, fftSize, spaceBetweenBars, playbackRate]);
+    e.preventDefault();
+  };
 
   /**
-   * This useEffect hook is responsible for loading the audio source
-   * When the `src` prop is changed, this hook will load the new audio source
-   * and starting playing it if `autoStart` is true
+   * The accessible name and role of the visualizer, and its keyboard shortcuts,
+   * set before the other props so they can be overridden
    */
-  useEffect(() => {
-    if (!canvasRef.current || !src) return;
+  const accessibilityProps = {
+    role: ariaLabel ? "img" : undefined,
+    "aria-label": ariaLabel,
+    "aria-keyshortcuts": keyboardControls
+      ? volumeKeys
+        ? `${KEYBOARD_SHORTCUTS} ${VOLUME_SHORTCUTS}`
+        : KEYBOARD_SHORTCUTS
+      : undefined,
+    tabIndex: keyboardControls ? 0 : undefined
+  };
 
-    if (!audioContextRef.current || !analyserRef.current) {
-      audioContextRef.current = new AudioContext();
-      analyserRef.current = audioContextRef.current.createAnalyser();
-    }
+  /**
+   * Announces the playback state, next to the visualizer
+   */
+  const liveRegion = ariaLabel ? (
+    <span role="status" style={visuallyHiddenStyle}>
+      {`${ariaLabel}: ${
+        { ...defaultAriaStateLabels, ...ariaStateLabels }[currentAudioState]
+      }`}
+    </span>
+  ) : null;
 
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.onended = null;
-      audioRef.current = null;
+  /**
+   * The level of silence and the highest level in the data format,
+   * which the default bar height brings to the byte range
+   */
+  const levelRange = getLevelRange(dataFormat, minDecibels, maxDecibels);
 
-      if (!autoStart) {
-        stopAnimationRef.current?.();
-      }
-    }
+  const barHeight =
+    barHeightProp === defaultBarHeight
+      ? getDefaultBarHeight(levelRange)
+      : barHeightProp;
 
-    const audio = load(
-      src,
-      audioContextRef.current,
-      analyserRef.current,
-      onAudioStateChange,
-      () => onSourceLoaded?.(audio),
-      () => onAudioStateChange("ended")
-    );
+  /**
+   * The styling props, read by the renderers on each frame,
+   * so changing them (e.g. with a theme) does not create the renderer again
+   * @see createLiveStyle
+   */
+  const styleRef = useRef<RendererStyleOptions>({
+    barWidth,
+    barHeight,
+    barColor,
+    drawFunction: customDrawFunction,
+    waveformDrawFunction: customWaveformDrawFunction
+  });
+
+  styleRef.current = {
+    barWidth,
+    barHeight,
+    barColor,
+    drawFunction: customDrawFunction,
+    waveformDrawFunction: customWaveformDrawFunction
+  };
+
+  const liveStyleRef = useRef<RendererStyleOptions | null>(null);
+
+  if (!liveStyleRef.current) {
+    liveStyleRef.current = createLiveStyle(styleRef);
+  }
+
+  const liveStyle = liveStyleRef.current;
 
-    audio.playbackRate = playbackRate;
+  /**
+   * The invalid frequency range is thrown while rendering, like the settings
+   * validated by `useAudioAnalyser`
+   */
+  validateFrequencyRange(minFrequency, maxFrequency);
 
-    audioRef.current = audio;
+  /**
+   * The renderers draw in CSS pixels, and scale the drawing by this ratio
+   */
+  const devicePixelRatio = useDevicePixelRatio(
+    responsive && pixelRatioProp === undefined
+  );
+  const pixelRatio = responsive ? pixelRatioProp ?? devicePixelRatio : 1;
 
-    if (autoStart) {
-      audio.play();
-      onAudioStateChange("playing");
-    }
-  }, [src]);
+  /**
+   * Whether the bars are rendered as SVG elements in place of the canvas
+   */
+  const svg = renderer === "svg" && mode === "bars";
 
   /**
-   * Make sure the audio is looped when the `loop` prop is changed
+   * The size of the viewBox of the SVG, the default size of a canvas
+   * when the `width` and `height` props are not set in pixels
    */
-  useEffect(() => {
-    if (!audioRef.current) return;
+  const svgWidth = Number(props.width) || 300;
+  const svgHeight = Number(props.height) || 150;
 
-    audioRef.current.loop = loop;
-  }, [loop]);
+  /**
+   * Whether the bars are drawn with WebGL, the 2D renderer being used
+   * for the options that cannot be turned into shaders
+   */
+  const webgl =
+    renderer === "webgl" &&
+    isWebGLRendererSupported({
+      mode,
+      barColor,
+      drawFunction: customDrawFunction,
+      peakColor
+    });
 
   /**
-   * Make sure the speed is changed when the `playbackRate` prop is changed
+   * The drawing options sent to the worker when `offscreen` is set,
+   * null when the canvas is drawn on the main thread
    */
-  useEffect(() => {
-    if (!audioRef.current) return;
+  const workerConfig =
+    offscreen && !workerFailed && !webgl && !svg && isOffscreenCanvasSupported()
+      ? getWorkerConfig({
+          mode,
+          stagger,
+          barWidth,
+          barHeight: barHeightProp,
+          barColor,
+          spaceBetweenBars,
+          drawFunction: customDrawFunction,
+          bandsOptions: {
+            barCount,
+            frequencyScale,
+            minFrequency,
+            maxFrequency,
+            bandAggregation
+          },
+          layoutOptions: { layout, innerRadius, startAngle, sweep, direction },
+          stereoLayout,
+          envelopeOptions: {
+            attack,
+            release,
+            peakCaps,
+            peakHoldTime,
+            peakFallSpeed,
+            peakHeight,
+            peakColor
+          },
+          waveformStyle,
+          waveformColor,
+          lineWidth,
+          waveformScale,
+          waveformTrigger,
+          waveformDrawFunction: customWaveformDrawFunction,
+          spectrogramOptions: {
+            direction: spectrogramDirection,
+            scrollSpeed,
+            colormap,
+            axes: spectrogramAxes,
+            axisColor
+          },
+          levelRange,
+          pixelRatio
+        })
+      : null;
 
-    audioRef.current.playbackRate = playbackRate;
-  }, [playbackRate]);
+  /**
+   * The colormap may be a new array on each render,
+   * so the renderer is only created again when its colors change
+   */
+  const colormapKey = JSON.stringify(colormap);
 
   /**
-   * Make sure the volume is changed when the `volume` prop is changed
+   * Once the control of a canvas is transferred to a worker, it cannot be drawn
+   * on the main thread anymore, so a new canvas is used when switching
    */
-  useEffect(() => {
-    if (!audioRef.current) return;
+  const inWorker = workerConfig !== null;
+  const workerKey = workerConfig && JSON.stringify(workerConfig);
+
+  /**
+   * A canvas cannot switch between a 2D and a WebGL context either
+   */
+  const canvasKey = inWorker ? "worker" : webgl ? "webgl" : "main";
+
+  /**
+   * Forward the canvas element to the `canvasRef` prop,
+   * null when the bars are rendered as SVG
+   */
+  useImperativeHandle(canvasRefProp, () => canvasRef.current, [canvasKey, svg]);
 
-    audioRef.current.volume = volume;
-  }, [volume]);
+  /**
+   * Expose the playback controls and the canvas snapshot through the ref
+   * @see AudioVisualizerHandle
+   */
+  useImperativeHandle(
+    ref,
+    () => ({
+      play,
+      resume,
+      pause,
+      stop,
+      seek,
+      next,
+      previous,
+      getAudioElement,
+      getAnalyser,
+      getFrequencyData: () => {
+        const analyser = getAnalyser();
+
+        if (!analyser) return new Uint8Array(0);
+
+        const data = new Uint8Array(analyser.frequencyBinCount);
+
+        analyser.getByteFrequencyData(data);
+
+        return data;
+      },
+      toDataURL: (type, quality) =>
+        (!inWorker && canvasRef.current?.toDataURL(type, quality)) || ""
+    }),
+    [
+      play,
+      resume,
+      pause,
+      stop,
+      seek,
+      next,
+      previous,
+      getAudioElement,
+      getAnalyser,
+      inWorker
+    ]
+  );
 
   /**
-   * This useEffect hook is responsible for updating the time elapsed
-   * When the audio is playing, we should update the time elapsed every `timeFactor`
-   * if the audio is paused or ended, we should stop updating the time elapsed
+   * This useEffect hook is responsible for resizing the canvas in responsive mode
+   * When the CSS size of the canvas changes, the canvas is resized to match it.
+   * A new canvas is observed when it is mounted again with another `canvasKey`,
+   * or after the SVG bars
    */
   useEffect(() => {
-    if (!audioRef.current) return;
+    const canvas = canvasRef.current;
 
-    let interval: NodeJS.Timeout | null = null;
+    if (!responsive || !canvas) return;
 
-    switch (audioState) {
-      case "playing": {
-        interval = setInterval(() => {
-          onTimeChange?.(audioRef.current?.currentTime ?? 0);
-        }, timeFactor / playbackRate);
+    keepIntrinsicSize(canvas);
 
-        break;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+
+      if (inWorker) {
+        getWorkerRenderer(canvas)?.resize(width, height, pixelRatio);
+      } else {
+        resizeCanvas(canvas, width, height, pixelRatio);
       }
+    });
 
-      case "paused":
-      case "ended": {
-        void (interval && clearInterval(interval));
+    observer.observe(canvas);
 
-        break;
-      }
-    }
+    return () => observer.disconnect();
+  }, [responsive, pixelRatio, canvasKey, svg]);
 
-    return () => {
-      void (interval && clearInterval(interval));
-    };
-  }, [audioState, timeFactor, playbackRate]);
+  /**
+   * This useEffect hook is responsible for resizing the canvas of the worker
+   * when the `width` and `height` props change, since the attributes of a canvas
+   * whose control has been transferred do not resize it
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+
+    if (!inWorker || responsive || !canvas) return;
+
+    getWorkerRenderer(canvas)?.resize(canvas.width, canvas.height, 1);
+  }, [inWorker, responsive, props.width, props.height]);
 
   /**
-   * This useEffect hook is responsible for playing, pausing and ending the audio
-   * When the `audioState` prop is changed, this hook will play, pause or end the audio
+   * This useEffect hook is responsible for creating the renderer
+   * When any prop that affects the drawing is changed, this hook
+   * will replace the renderer, except for the styling props read from `styleRef`
    */
   useEffect(() => {
-    if (!audioRef.current) return;
+    const canvas = canvasRef.current;
+
+    if (svg) {
+      if (!barsRef.current) return;
+
+      return subscribe(
+        createSvgBarsRenderer(
+          barsRef.current,
+          svgWidth,
+          svgHeight,
+          stagger,
+          liveStyle.barWidth,
+          liveStyle.barHeight,
+          liveStyle.barColor,
+          spaceBetweenBars,
+          barClassName,
+          { barCount, frequencyScale, minFrequency, maxFrequency, bandAggregation },
+          { layout, innerRadius, startAngle, sweep, direction },
+          stereoLayout,
+          {
+            attack,
+            release,
+            peakCaps,
+            peakHoldTime,
+            peakFallSpeed,
+            peakHeight,
+            peakColor
+          },
+          levelRange
+        )
+      );
+    }
 
-    switch (audioState) {
-      case "playing": {
-        audioRef.current.play();
+    if (!canvas) return;
 
-        onSourcePlaying?.(audioRef.current);
-        startAnimationRef.current?.();
-        break;
-      }
+    if (workerConfig) {
+      const onWorkerError = (cause: unknown) => {
+        setWorkerFailed(true);
+        onErrorRef.current?.({ kind: "worker", cause });
+      };
 
-      case "paused": {
-        audioRef.current.pause();
+      let renderer: WorkerRenderer;
 
-        onSourcePaused?.(audioRef.current);
-        stopAnimationRef.current?.();
-        break;
+      try {
+        renderer = acquireWorkerRenderer(canvas, onWorkerError);
+      } catch (error) {
+        onWorkerError(error);
+        return;
       }
 
-      case "ended": {
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
+      const unsubscribe = subscribe(renderer.render);
 
-        onSourceEnded?.(audioRef.current);
-        stopAnimationRef.current?.();
-        break;
-      }
+      renderer.configure(workerConfig);
+
+      return () => {
+        unsubscribe();
+        releaseWorkerRenderer(canvas, onWorkerError);
+      };
+    }
+
+    if (mode === "waveform") {
+      return subscribe(
+        createWaveformRenderer(
+          canvas,
+          stagger,
+          waveformStyle,
+          waveformColor,
+          lineWidth,
+          waveformScale,
+          waveformTrigger,
+          liveStyle.waveformDrawFunction,
+          pixelRatio
+        )
+      );
+    }
+
+    if (mode === "spectrogram") {
+      return subscribe(
+        createSpectrogramRenderer(
+          canvas,
+          stagger,
+          { frequencyScale, minFrequency, maxFrequency, bandAggregation },
+          {
+            direction: spectrogramDirection,
+            scrollSpeed,
+            colormap,
+            axes: spectrogramAxes,
+            axisColor
+          },
+          pixelRatio
+        )
+      );
+    }
+
+    const webglRenderer = webgl
+      ? createWebGLBarsRenderer(
+          canvas,
+          stagger,
+          liveStyle.barWidth,
+          liveStyle.barHeight,
+          () => {
+            const { barColor } = styleRef.current;
+
+            return typeof barColor === "string" ? barColor : null;
+          },
+          spaceBetweenBars,
+          { barCount, frequencyScale, minFrequency, maxFrequency, bandAggregation },
+          { layout, innerRadius, startAngle, sweep, direction },
+          stereoLayout,
+          {
+            attack,
+            release,
+            peakCaps,
+            peakHoldTime,
+            peakFallSpeed,
+            peakHeight,
+            peakColor: typeof peakColor === "string" ? peakColor : undefined
+          },
+          pixelRatio,
+          fragmentShader
+        )
+      : null;
+
+    if (webglRenderer) {
+      const unsubscribe = subscribe(webglRenderer.render);
+
+      return () => {
+        unsubscribe();
+        webglRenderer.dispose();
+      };
     }
-  }, [audioState]);
 
-  return <canvas ref={canvasRef} {...props} />;
+    return subscribe(
+      createBarsRenderer(
+        canvas,
+        stagger,
+        liveStyle.barWidth,
+        liveStyle.barHeight,
+        liveStyle.barColor,
+        spaceBetweenBars,
+        liveStyle.drawFunction,
+        { barCount, frequencyScale, minFrequency, maxFrequency, bandAggregation },
+        { layout, innerRadius, startAngle, sweep, direction },
+        stereoLayout,
+        {
+          attack,
+          release,
+          peakCaps,
+          peakHoldTime,
+          peakFallSpeed,
+          peakHeight,
+          peakColor
+        },
+        pixelRatio
+      )
+    );
+  }, [
+    subscribe,
+    mode,
+    stagger,
+    spaceBetweenBars,
+    barCount,
+    frequencyScale,
+    minFrequency,
+    maxFrequency,
+    bandAggregation,
+    layout,
+    innerRadius,
+    startAngle,
+    sweep,
+    direction,
+    stereoLayout,
+    attack,
+    release,
+    peakCaps,
+    peakHoldTime,
+    peakFallSpeed,
+    peakHeight,
+    peakColor,
+    waveformStyle,
+    waveformColor,
+    lineWidth,
+    waveformScale,
+    waveformTrigger,
+    spectrogramDirection,
+    scrollSpeed,
+    colormapKey,
+    spectrogramAxes,
+    axisColor,
+    pixelRatio,
+    workerKey,
+    webgl,
+    fragmentShader,
+    svg,
+    svgWidth,
+    svgHeight,
+    dataFormat,
+    minDecibels,
+    maxDecibels
+  ]);
+
+  if (svg) {
+    const { width, height, ...svgProps } = props as SVGProps<SVGSVGElement>;
+
+    /**
+     * The bars are rendered on the server only when their number is known,
+     * the renderer creates them otherwise
+     */
+    const placeholder = createSvgBarsMarkup(
+      channels === "stereo" ? ["left", "right"] : ["mono"],
+      barCount ?? 0,
+      getPeaksPerBar(layout, peakCaps),
+      barClassName
+    );
+
+    return (
+      <>
+        <svg
+          viewBox={`0 0 ${svgWidth} ${svgHeight}`}
+          width={width ?? svgWidth}
+          height={height ?? svgHeight}
+          preserveAspectRatio="none"
+          {...accessibilityProps}
+          {...svgProps}
+          onKeyDown={e => {
+            svgProps.onKeyDown?.(e);
+            onKeyDown(e);
+          }}
+        >
+          <g ref={barsRef} dangerouslySetInnerHTML={{ __html: placeholder }} />
+        </svg>
+        {liveRegion}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <canvas
+        key={canvasKey}
+        ref={canvasRef}
+        {...accessibilityProps}
+        {...props}
+        onKeyDown={e => {
+          props.onKeyDown?.(e);
+          onKeyDown(e);
+        }}
+      />
+      {liveRegion}
+    </>
+  );
 };
 
+/**
+ * The ref exposes the playback controls, see `AudioVisualizerHandle`
+ */
+const AudioVisualizer = forwardRef(renderAudioVisualizer);
+
+AudioVisualizer.displayName = "AudioVisualizer";
+
 export * from "./types";
-export { AudioVisualizer };
+export {
+  AudioVisualizer,
+  AudioVisualizerProvider,
+  colormaps,
+  computeWaveformPeaks,
+  createColormap,
+  equalizerPresets,
+  useAudioAnalyser,
+  WaveformOverview
+};
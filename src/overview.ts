@@ -0,0 +1,133 @@
+import type { WaveformPeaks } from "./types";
+
+/**
+ * Fetches and decodes an audio file.
+ * The file is decoded with an OfflineAudioContext,
+ * so no realtime audio context is created for it
+ *
+ * @param src The url of the audio file
+ * @param signal A signal to abort the request
+ * @returns The decoded audio
+ */
+async function decodeAudio(src: string, signal?: AbortSignal): Promise<AudioBuffer> {
+  const response = await fetch(src, { signal });
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch ${src}: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const audioContext = new OfflineAudioContext(1, 1, 44100);
+
+  return audioContext.decodeAudioData(await response.arrayBuffer());
+}
+
+/**
+ * Function to validate the number of columns of a waveform overview
+ * Throws an error if it is not a positive integer
+ *
+ * @param resolution The number of columns
+ */
+function validateResolution(resolution: number) {
+  if (!Number.isInteger(resolution) || resolution <= 0) {
+    throw new Error(
+      `Invalid resolution: ${resolution}. It must be a positive integer`
+    );
+  }
+}
+
+/**
+ * Computes the peak and the RMS of every column of the waveform of an audio buffer.
+ * Every channel is taken into account, so a column shows the loudest one.
+ *
+ * @param buffer The decoded audio
+ * @param resolution The number of columns
+ * @returns The peaks and RMS of each column, from 0 to 1
+ */
+function computeWaveformPeaks(
+  buffer: AudioBuffer,
+  resolution: number
+): WaveformPeaks {
+  validateResolution(resolution);
+
+  const peak = new Float32Array(resolution);
+  const rms = new Float32Array(resolution);
+
+  const samplesPerColumn = buffer.length / resolution;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+
+    for (let column = 0; column < resolution; column++) {
+      const start = Math.floor(column * samplesPerColumn);
+      const end = Math.max(Math.floor((column + 1) * samplesPerColumn), start + 1);
+
+      let max = 0;
+      let sum = 0;
+
+      for (let i = start; i < end && i < data.length; i++) {
+        max = Math.max(max, Math.abs(data[i]));
+        sum += data[i] * data[i];
+      }
+
+      peak[column] = Math.max(peak[column], max);
+      rms[column] = Math.max(rms[column], Math.sqrt(sum / (end - start)));
+    }
+  }
+
+  return { peak, rms, duration: buffer.duration };
+}
+
+/**
+ * Draws the waveform overview on the canvas, one vertical line per pixel column.
+ * The peaks are drawn at half opacity, with the RMS on top at full opacity,
+ * and the part before `progress` is drawn with `progressColor`
+ *
+ * @param canvas The reference to the canvas element
+ * @param peaks The peaks to draw
+ * @param progress The played fraction of the audio, from 0 to 1
+ * @param waveColor The color of the part that has not been played
+ * @param progressColor The color of the part that has been played
+ */
+function drawWaveformOverview(
+  canvas: HTMLCanvasElement,
+  { peak, rms }: WaveformPeaks,
+  progress: number,
+  waveColor: string | CanvasGradient | CanvasPattern,
+  progressColor: string | CanvasGradient | CanvasPattern
+) {
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not supported");
+  }
+
+  const center = canvas.height / 2;
+  const played = progress * canvas.width;
+
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+  for (let x = 0; x < canvas.width; x++) {
+    const i = Math.floor((x / canvas.width) * peak.length);
+
+    ctx.fillStyle = x < played ? progressColor : waveColor;
+
+    ctx.globalAlpha = 0.5;
+    ctx.fillRect(x, center - peak[i] * center, 1, peak[i] * canvas.height);
+
+    if (rms) {
+      ctx.globalAlpha = 1;
+      ctx.fillRect(x, center - rms[i] * center, 1, rms[i] * canvas.height);
+    }
+  }
+
+  ctx.globalAlpha = 1;
+}
+
+export {
+  computeWaveformPeaks,
+  decodeAudio,
+  drawWaveformOverview,
+  validateResolution
+};
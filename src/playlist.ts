@@ -0,0 +1,298 @@
+import { playMedia } from "./scripts";
+import type { CrossOrigin, PlaylistRepeat } from "./types";
+
+/**
+ * A track of the playlist, with its own gain node used to fade it in and out
+ */
+type PlaylistTrack = {
+  index: number;
+  audio: HTMLAudioElement;
+  source: MediaElementAudioSourceNode;
+  gain: GainNode;
+};
+
+/**
+ * The options of the playlist that can be changed while it is playing
+ */
+type PlaylistOptions = {
+  crossfade: number;
+  shuffle: boolean;
+  repeat: PlaylistRepeat;
+};
+
+/**
+ * The controls of a playlist created with `createPlaylist`
+ */
+type Playlist = {
+  next: () => void;
+  previous: () => void;
+  update: (options: PlaylistOptions) => void;
+  getAudioElement: () => HTMLAudioElement;
+  dispose: () => void;
+};
+
+/**
+ * Shuffles the given indices, keeping `first` at the start
+ *
+ * @param length The number of indices
+ * @param first The index to keep at the start
+ * @returns The shuffled indices
+ */
+function shuffleOrder(length: number, first: number): number[] {
+  const rest = Array.from({ length }, (_, i) => i).filter(i => i !== first);
+
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+
+  return [first, ...rest];
+}
+
+/**
+ * Creates a playlist that plays the tracks one after the other through the same input.
+ * The next track is always preloaded, and when `crossfade` is set, the tracks are faded
+ * into each other with their own gain node, so the analyser never sees a gap.
+ *
+ * @param tracks The urls of the tracks
+ * @param audioContext The audio context to use
+ * @param input The node every track is connected to
+ * @param crossOrigin The CORS setting of the tracks, none when undefined
+ * @param options The crossfade, shuffle and repeat options
+ * @param onTrackChange The function to call when a track becomes the current one
+ * @param onEnded The function to call when the last track ends
+ * @param onBlocked The function to call when the browser requires a user gesture
+ * before the next track can play
+ * @returns The playlist controls
+ */
+function createPlaylist(
+  tracks: string[],
+  audioContext: AudioContext,
+  input: AudioNode,
+  crossOrigin: CrossOrigin | undefined,
+  options: PlaylistOptions,
+  onTrackChange: (audio: HTMLAudioElement, index: number) => void,
+  onEnded: () => void,
+  onBlocked: () => void
+): Playlist {
+  let { crossfade, shuffle, repeat } = options;
+
+  let order = shuffle
+    ? shuffleOrder(tracks.length, Math.floor(Math.random() * tracks.length))
+    : tracks.map((_, i) => i);
+  let position = 0;
+
+  let current: PlaylistTrack;
+  let preloaded: PlaylistTrack | null = null;
+
+  /**
+   * The track that is fading out during a crossfade
+   */
+  let fading: PlaylistTrack | null = null;
+
+  const loadTrack = (index: number): PlaylistTrack => {
+    const audio = new Audio();
+
+    if (crossOrigin) audio.crossOrigin = crossOrigin;
+    audio.preload = "auto";
+    audio.src = tracks[index];
+
+    const source = audioContext.createMediaElementSource(audio);
+    const gain = audioContext.createGain();
+
+    source.connect(gain);
+    gain.connect(input);
+
+    return { index, audio, source, gain };
+  };
+
+  const disposeTrack = (track: PlaylistTrack) => {
+    track.audio.pause();
+    track.audio.ontimeupdate = null;
+    track.audio.onended = null;
+    track.audio.onpause = null;
+    track.audio.removeAttribute("src");
+    track.audio.load();
+
+    track.source.disconnect();
+    track.gain.disconnect();
+  };
+
+  const getNextPosition = (step: 1 | -1): number | null => {
+    const next = position + step;
+
+    if (next >= 0 && next < order.length) return next;
+
+    return repeat === "all" ? (next + order.length) % order.length : null;
+  };
+
+  /**
+   * Makes sure the track after the current one is loaded and ready to play
+   */
+  const preload = () => {
+    const next = getNextPosition(1);
+    const index = next === null ? null : order[next];
+
+    if (preloaded && preloaded.index === index) return;
+
+    if (preloaded) disposeTrack(preloaded);
+
+    preloaded = index === null || index === current.index ? null : loadTrack(index);
+  };
+
+  /**
+   * Starts fading the current track out and the preloaded one in,
+   * when the current track is about to end
+   */
+  const onTimeUpdate = () => {
+    const { audio } = current;
+    const next = getNextPosition(1);
+
+    if (crossfade <= 0 || fading || !preloaded || repeat === "one" || next === null)
+      return;
+
+    const remaining = (audio.duration - audio.currentTime) / audio.playbackRate;
+
+    if (!(remaining <= crossfade)) return;
+
+    const now = audioContext.currentTime;
+
+    const outgoing = current;
+
+    outgoing.gain.gain.setValueAtTime(1, now);
+    outgoing.gain.gain.linearRampToValueAtTime(0, now + remaining);
+
+    preloaded.gain.gain.setValueAtTime(0, now);
+    preloaded.gain.gain.linearRampToValueAtTime(1, now + remaining);
+
+    fading = outgoing;
+    outgoing.audio.ontimeupdate = null;
+    outgoing.audio.onpause = null;
+    outgoing.audio.onended = () => {
+      if (fading === outgoing) fading = null;
+
+      disposeTrack(outgoing);
+    };
+
+    moveTo(next, true);
+  };
+
+  /**
+   * Makes the track at the given position the current one
+   *
+   * @param next The position of the track in the play order
+   * @param play Whether the new track should start playing
+   */
+  const moveTo = (next: number, play: boolean) => {
+    position = next;
+
+    const index = order[position];
+    const track =
+      preloaded && preloaded.index === index ? preloaded : loadTrack(index);
+
+    if (track === preloaded) preloaded = null;
+
+    if (current) {
+      track.audio.volume = current.audio.volume;
+      track.audio.playbackRate = current.audio.playbackRate;
+
+      if (current !== fading) disposeTrack(current);
+    }
+
+    current = track;
+    current.audio.loop = repeat === "one";
+    current.audio.ontimeupdate = onTimeUpdate;
+    current.audio.onended = () => {
+      const following = getNextPosition(1);
+
+      if (following === null) {
+        onEnded();
+      } else {
+        moveTo(following, true);
+      }
+    };
+
+    /**
+     * Pausing during a crossfade finishes it right away
+     */
+    current.audio.onpause = () => {
+      if (fading) {
+        disposeTrack(fading);
+        fading = null;
+      }
+
+      track.gain.gain.cancelScheduledValues(audioContext.currentTime);
+      track.gain.gain.setValueAtTime(1, audioContext.currentTime);
+    };
+
+    onTrackChange(current.audio, index);
+
+    if (play) {
+      playMedia(current.audio, audioContext)
+        .then(state => {
+          if (state === "blocked") onBlocked();
+        })
+        .catch(() => {
+          /**
+           * The other errors are reported by the error event of the element,
+           * or come from a pause that interrupted the playback
+           */
+        });
+    }
+
+    preload();
+  };
+
+  const skip = (step: 1 | -1) => {
+    const next = getNextPosition(step);
+
+    if (next === null) {
+      if (step === -1) current.audio.currentTime = 0;
+      return;
+    }
+
+    if (fading) {
+      disposeTrack(fading);
+      fading = null;
+    }
+
+    current.gain.gain.cancelScheduledValues(audioContext.currentTime);
+
+    moveTo(next, !current.audio.paused);
+  };
+
+  moveTo(0, false);
+
+  return {
+    next: () => skip(1),
+    previous: () => skip(-1),
+    update: options => {
+      if (options.shuffle !== shuffle) {
+        order = options.shuffle
+          ? shuffleOrder(tracks.length, current.index)
+          : tracks.map((_, i) => i);
+        position = order.indexOf(current.index);
+      }
+
+      ({ crossfade, shuffle, repeat } = options);
+
+      current.audio.loop = repeat === "one";
+
+      preload();
+    },
+    getAudioElement: () => current.audio,
+    dispose: () => {
+      disposeTrack(current);
+
+      if (preloaded) disposeTrack(preloaded);
+      if (fading) disposeTrack(fading);
+
+      preloaded = null;
+      fading = null;
+    }
+  };
+}
+
+export { createPlaylist };
+export type { Playlist, PlaylistOptions };
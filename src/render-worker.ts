@@ -0,0 +1,173 @@
+import {
+  createBarsRenderer,
+  createLiveStyle,
+  createWaveformRenderer,
+  defaultBarColor,
+  defaultBarWidth,
+  drawBar,
+  drawWaveform,
+  getDefaultBarHeight,
+  type RendererStyleOptions
+} from "./scripts";
+import { createSpectrogramRenderer } from "./spectrogram-renderer";
+import type { AudioAnalyserListener } from "./types";
+import {
+  getFrameBuffers,
+  type RenderWorkerMessage,
+  type WorkerRendererConfig
+} from "./worker-renderer";
+
+/**
+ * Gets the options that the renderer cannot change while it draws.
+ * The bar width, height and color are read on each frame instead,
+ * so changing them does not reset the bars
+ *
+ * @param config The drawing options
+ * @returns A key that changes when the renderer has to be created again
+ */
+function getRendererKey({
+  barWidth,
+  barColor,
+  levelRange,
+  ...options
+}: WorkerRendererConfig): string {
+  return JSON.stringify(options);
+}
+
+/**
+ * Gets the styling options of the drawing options
+ *
+ * @param config The drawing options
+ * @returns The styling options, with the built-in functions
+ */
+function getStyle({
+  barWidth,
+  barColor,
+  levelRange
+}: Pick<
+  WorkerRendererConfig,
+  "barWidth" | "barColor" | "levelRange"
+>): RendererStyleOptions {
+  return {
+    barWidth: barWidth ?? defaultBarWidth,
+    barHeight: getDefaultBarHeight(levelRange),
+    barColor: barColor ?? defaultBarColor,
+    drawFunction: drawBar,
+    waveformDrawFunction: drawWaveform
+  };
+}
+
+/**
+ * Creates the renderer of the worker, with the same renderers as the main thread
+ *
+ * @param canvas The canvas transferred from the main thread
+ * @param config The drawing options
+ * @param style The styling options, read on each frame
+ * @returns A function that draws a frame
+ */
+function createRenderer(
+  canvas: OffscreenCanvas,
+  config: WorkerRendererConfig,
+  style: RendererStyleOptions
+): AudioAnalyserListener {
+  /**
+   * The renderers only use the size and the 2D context of the canvas,
+   * which OffscreenCanvas has as well
+   */
+  const target = canvas as unknown as HTMLCanvasElement;
+
+  if (config.mode === "waveform") {
+    return createWaveformRenderer(
+      target,
+      config.stagger,
+      config.waveformStyle,
+      config.waveformColor,
+      config.lineWidth,
+      config.waveformScale,
+      config.waveformTrigger,
+      style.waveformDrawFunction,
+      config.pixelRatio
+    );
+  }
+
+  if (config.mode === "spectrogram") {
+    return createSpectrogramRenderer(
+      target,
+      config.stagger,
+      config.bandsOptions,
+      config.spectrogramOptions,
+      config.pixelRatio
+    );
+  }
+
+  return createBarsRenderer(
+    target,
+    config.stagger,
+    style.barWidth,
+    style.barHeight,
+    style.barColor,
+    config.spaceBetweenBars,
+    style.drawFunction,
+    config.bandsOptions,
+    config.layoutOptions,
+    config.stereoLayout,
+    config.envelopeOptions,
+    config.pixelRatio
+  );
+}
+
+/**
+ * The entry of the worker, see `acquireWorkerRenderer` for the main thread side
+ */
+let canvas: OffscreenCanvas | null = null;
+let render: AudioAnalyserListener | null = null;
+let rendererKey = "";
+
+/**
+ * The styling options of the latest config, see `createLiveStyle`
+ */
+const styleRef = {
+  current: getStyle({ barWidth: null, barColor: null, levelRange: [0, 255] })
+};
+const style = createLiveStyle(styleRef);
+
+addEventListener("message", (event: Event) => {
+  const message = (event as MessageEvent<RenderWorkerMessage>).data;
+
+  switch (message.type) {
+    case "canvas": {
+      canvas = message.canvas;
+      break;
+    }
+
+    case "config": {
+      const key = getRendererKey(message.config);
+
+      styleRef.current = getStyle(message.config);
+
+      if (canvas && (!render || key !== rendererKey)) {
+        render = createRenderer(canvas, message.config, style);
+        rendererKey = key;
+      }
+      break;
+    }
+
+    case "resize": {
+      if (!canvas) break;
+
+      canvas.width = message.width;
+      canvas.height = message.height;
+      break;
+    }
+
+    /**
+     * The frame is sent back once drawn, so the main thread can reuse its buffers
+     */
+    case "frame": {
+      render?.(message.frame);
+
+      postMessage(message.frame, { transfer: getFrameBuffers(message.frame) });
+      break;
+    }
+  }
+});
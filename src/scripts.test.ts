@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { defaultBarHeight, getDefaultBarHeight } from "./scripts";
+
+describe("getDefaultBarHeight", () => {
+  it("draws the bars as high in every data format", () => {
+    expect(getDefaultBarHeight([0, 255])).toBe(defaultBarHeight);
+
+    const decibels = getDefaultBarHeight([-100, -30]);
+    const normalized = getDefaultBarHeight([0, 1]);
+
+    expect(decibels(-100, 1, 0, 0, 0)).toBe(0);
+    expect(decibels(-65, 1, 0, 0, 0)).toBe(63.75);
+    expect(decibels(-Infinity, 1, 0, 0, 0)).toBe(0);
+    expect(normalized(1, 1, 0, 0, 0)).toBe(127.5);
+    expect(normalized(0.5, 1, 0, 0, 0)).toBe(63.75);
+  });
+});
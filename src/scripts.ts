@@ -1,43 +1,516 @@
+import type { MutableRefObject, RefObject } from "react";
 import {
+  AudioAnalyserChannelData,
+  AudioAnalyserFrame,
+  AudioChannel,
+  AudioChannels,
+  AudioError,
+  BarsLayout,
+  BarsDirection,
+  AudioAnalyserListener,
   AudioState,
+  CrossOrigin,
   CustomBarColorArg,
   CustomBarHeightArg,
   CustomBarWidthArg,
-  CustomDrawFunction
+  CustomDrawFunction,
+  CustomDrawFunctionArgs,
+  CustomWaveformDrawFunction,
+  CustomWaveformDrawFunctionArgs,
+  IdleFrame,
+  StereoLayout,
+  WaveformStyle,
+  WaveformTrigger
 } from "./types";
+import { createBarsState } from "./bars-state";
+import { updatePeak } from "./envelope";
+import {
+  createLevelsReader,
+  getSilentLevel,
+  type FrequencyLevelsOptions
+} from "./frequency-levels";
+import type { FrequencyBandsOptions } from "./frequency-bands";
+
+/**
+ * The options used to lay out the bars on the canvas
+ */
+type BarsLayoutOptions = {
+  layout: BarsLayout;
+  innerRadius?: number;
+  startAngle: number;
+  sweep: number;
+  direction: BarsDirection;
+};
 
 /**
- * Loads an audio source and connects it to an analyser node
+ * The options used to smooth the bars and draw their peak caps
+ */
+type BarsEnvelopeOptions = {
+  attack: number;
+  release: number;
+  peakCaps: boolean;
+  peakHoldTime: number;
+  peakFallSpeed: number;
+  peakHeight: number;
+  peakColor?: string | CanvasGradient | CanvasPattern;
+};
+
+/**
+ * The styling options that can change while the renderers draw
+ */
+type RendererStyleOptions = {
+  barWidth: CustomBarWidthArg;
+  barHeight: CustomBarHeightArg;
+  barColor: CustomBarColorArg;
+  drawFunction: CustomDrawFunction;
+  waveformDrawFunction: CustomWaveformDrawFunction;
+};
+
+/**
+ * Loads an audio source and connects it to the input of the effects chain,
+ * which feeds the analyser and the speakers
  *
  * @param src The source of the audio to visualize
+ * @param crossOrigin The CORS setting of the element, none when undefined
  * @param audioContext The audio context to use
- * @param analyser The analyser node to use
+ * @param input The node to connect the source to
  * @param setAudioState The function to set the audio state
  * @param onLoad The function to call when the audio is loaded
  * @param onEnded The function to call when the audio ends
- * @returns An HTMLAudioElement with the source set to `src`
+ * @param onError The function to call when the audio cannot be loaded
+ * @returns The source node of an HTMLAudioElement with the source set to `src`,
+ * the element being its `mediaElement`
  */
 function load(
   src: string,
+  crossOrigin: CrossOrigin | undefined,
   audioContext: AudioContext,
-  analyser: AnalyserNode,
+  input: AudioNode,
   setAudioState: (audioState: AudioState) => void,
   onLoad: () => void,
-  onEnded: () => void
-): HTMLAudioElement {
-  const audio = new Audio(src);
+  onEnded: () => void,
+  onError: () => void
+): MediaElementAudioSourceNode {
+  const audio = new Audio();
+
+  if (crossOrigin) audio.crossOrigin = crossOrigin;
+  audio.src = src;
 
   audio.onloadedmetadata = onLoad;
   audio.onended = onEnded;
+  audio.onerror = onError;
 
   const source = audioContext.createMediaElementSource(audio);
 
-  source.connect(analyser);
-  source.connect(audioContext.destination);
+  source.connect(input);
+
+  setAudioState("pending");
+
+  return source;
+}
+
+/**
+ * Unloads an audio source created with `load`:
+ * stops the element and its download, and disconnects its source node,
+ * so the next source does not play on top of it
+ *
+ * @param source The source node returned by `load`
+ */
+function unload(source: MediaElementAudioSourceNode) {
+  const audio = source.mediaElement;
+
+  audio.onloadedmetadata = null;
+  audio.onended = null;
+  audio.onerror = null;
+  audio.pause();
+  audio.removeAttribute("src");
+  audio.load();
+
+  source.disconnect();
+}
+
+/**
+ * Checks whether a url is on another origin than the page.
+ * Blob and data urls are created by the page, so they never are
+ *
+ * @param url The url to check, relative to the page
+ * @returns Whether the url is on another origin
+ */
+function isCrossOrigin(url: string): boolean {
+  try {
+    const { protocol, origin } = new URL(url, location.href);
+
+    return (
+      protocol !== "data:" && protocol !== "blob:" && origin !== location.origin
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks whether the analyser would only get silence from a media element,
+ * because it plays a source from another origin without CORS
+ *
+ * @param element The media element to check
+ * @returns Whether the element is tainted
+ */
+function isTainted(element: HTMLMediaElement): boolean {
+  return element.crossOrigin === null && isCrossOrigin(element.currentSrc);
+}
+
+/**
+ * Finds out why a media element could not be loaded.
+ * Browsers report missing files, blocked requests and unsupported formats alike,
+ * so the headers of the source are requested again to tell them apart.
+ * Blob and data urls are already in memory, so only their format can be wrong
+ *
+ * @param element The media element that fired an error event
+ * @returns The error to report
+ */
+async function getMediaError(element: HTMLMediaElement): Promise<AudioError> {
+  const cause = element.error;
+
+  switch (cause?.code) {
+    case MediaError.MEDIA_ERR_NETWORK: {
+      return { kind: "network", cause };
+    }
+
+    case MediaError.MEDIA_ERR_DECODE: {
+      return { kind: "decode", cause };
+    }
+  }
+
+  const src = element.currentSrc || element.src;
+
+  if (/^(blob|data):/i.test(src)) {
+    return { kind: "unsupported", cause };
+  }
+
+  try {
+    const response = await fetch(src, { method: "HEAD" });
+
+    return { kind: response.ok ? "unsupported" : "network", cause };
+  } catch {
+    return { kind: isCrossOrigin(src) ? "cors" : "network", cause };
+  }
+}
+
+/**
+ * How long a suspended audio context is given to resume, in milliseconds.
+ * When autoplay is not allowed, browsers keep it suspended until a user gesture
+ */
+const RESUME_TIMEOUT = 200;
+
+/**
+ * Resumes an audio context, e.g. one created before any user gesture
+ *
+ * @param audioContext The audio context to resume
+ * @returns Whether the context is running
+ */
+async function resumeAudioContext(audioContext: BaseAudioContext): Promise<boolean> {
+  if (audioContext.state === "suspended") {
+    await Promise.race([
+      (audioContext as AudioContext).resume().catch(() => {}),
+      new Promise(resolve => setTimeout(resolve, RESUME_TIMEOUT))
+    ]);
+  }
+
+  return audioContext.state === "running";
+}
+
+/**
+ * Plays a media element connected to an audio context.
+ * The context is resumed first, so the element does not play silence
+ *
+ * @param element The media element to play
+ * @param audioContext The audio context the element is connected to
+ * @returns "playing", or "blocked" when the browser requires a user gesture first
+ * @throws The error of `play()`, when the element cannot be played for another reason
+ */
+async function playMedia(
+  element: HTMLMediaElement,
+  audioContext: BaseAudioContext
+): Promise<"playing" | "blocked"> {
+  if (!(await resumeAudioContext(audioContext))) return "blocked";
+
+  try {
+    await element.play();
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "NotAllowedError") {
+      return "blocked";
+    }
+
+    throw error;
+  }
+
+  return "playing";
+}
+
+/**
+ * Connects a live media stream (e.g. from `getUserMedia` or a WebRTC track)
+ * to the input of the effects chain.
+ * The chain must not be connected to the audio context destination,
+ * since that would play the input back and cause feedback.
+ *
+ * @param stream The media stream to visualize
+ * @param audioContext The audio context to use
+ * @param input The node to connect the stream to
+ * @param setAudioState The function to set the audio state
+ * @param onEnded The function to call when every audio track of the stream has ended
+ * @returns The MediaStreamAudioSourceNode connected to `input`
+ */
+function loadStream(
+  stream: MediaStream,
+  audioContext: AudioContext,
+  input: AudioNode,
+  setAudioState: (audioState: AudioState) => void,
+  onEnded: () => void
+): MediaStreamAudioSourceNode {
+  const source = audioContext.createMediaStreamSource(stream);
+
+  source.connect(input);
+
+  const tracks = stream.getAudioTracks();
+
+  const onTrackEnded = () => {
+    if (tracks.every(track => track.readyState === "ended")) {
+      onEnded();
+    }
+  };
+
+  tracks.forEach(track =>
+    track.addEventListener("ended", onTrackEnded, { once: true })
+  );
 
   setAudioState("pending");
 
-  return audio;
+  return source;
+}
+
+/**
+ * Gets the element out of a `mediaElement` prop, that can be an element or a ref to it
+ *
+ * @param mediaElement The element or the ref
+ * @returns The element, null if there is none
+ */
+function resolveMediaElement(
+  mediaElement:
+    | RefObject<HTMLMediaElement | null>
+    | HTMLMediaElement
+    | null
+    | undefined
+): HTMLMediaElement | null {
+  return (
+    (mediaElement && "current" in mediaElement
+      ? mediaElement.current
+      : mediaElement) ?? null
+  );
+}
+
+/**
+ * A MediaElementAudioSourceNode can only be created once per element,
+ * so the nodes are cached and shared by every visualizer attached to the same element.
+ */
+const mediaElementSources = new WeakMap<
+  HTMLMediaElement,
+  MediaElementAudioSourceNode
+>();
+
+/**
+ * Gets the source node of a media element, creating it the first time.
+ * The node lives in the given audio context, or in its own one, and is connected
+ * to the destination once, so the element keeps playing through the speakers.
+ *
+ * @param element The media element to get the source node of
+ * @param context The audio context to create the node in, the first time
+ * @returns The MediaElementAudioSourceNode of the element
+ */
+function getMediaElementSource(
+  element: HTMLMediaElement,
+  context?: AudioContext
+): MediaElementAudioSourceNode {
+  let source = mediaElementSources.get(element);
+
+  if (!source) {
+    const audioContext = context ?? new AudioContext();
+
+    source = audioContext.createMediaElementSource(element);
+    source.connect(audioContext.destination);
+
+    mediaElementSources.set(element, source);
+  }
+
+  return source;
+}
+
+/**
+ * Attaches an existing media element to the input of the effects chain.
+ * The audio state follows the element's own play, pause and ended events.
+ *
+ * @param element The media element to visualize
+ * @param source The source node of the element
+ * @param input The node to connect the element to, must belong to the context of `source`
+ * @param setAudioState The function to set the audio state
+ * @param onLoad The function to call when the element metadata is loaded
+ * @param onError The function to call when the element cannot be loaded
+ * @returns A function that detaches the element from `input`
+ */
+function attachMediaElement(
+  element: HTMLMediaElement,
+  source: MediaElementAudioSourceNode,
+  input: AudioNode,
+  setAudioState: (audioState: AudioState) => void,
+  onLoad: () => void,
+  onError: () => void
+): () => void {
+  /**
+   * The context may have been created before any user gesture,
+   * in which case it starts suspended and the element would play silence
+   */
+  const onPlay = () => {
+    (source.context as AudioContext).resume().catch(() => {});
+    setAudioState("playing");
+  };
+
+  const onPause = () => setAudioState("paused");
+  const onEnded = () => setAudioState("ended");
+
+  source.connect(input);
+
+  element.addEventListener("play", onPlay);
+  element.addEventListener("pause", onPause);
+  element.addEventListener("ended", onEnded);
+  element.addEventListener("error", onError);
+
+  if (element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+    onLoad();
+  } else {
+    element.addEventListener("loadedmetadata", onLoad, { once: true });
+  }
+
+  setAudioState(element.paused ? "pending" : "playing");
+
+  if (element.error) onError();
+
+  return () => {
+    source.disconnect(input);
+
+    element.removeEventListener("play", onPlay);
+    element.removeEventListener("pause", onPause);
+    element.removeEventListener("ended", onEnded);
+    element.removeEventListener("error", onError);
+    element.removeEventListener("loadedmetadata", onLoad);
+  };
+}
+
+/**
+ * The settings of an analyser node, that the props can change
+ */
+type AnalyserSettings = Pick<
+  AnalyserNode,
+  "fftSize" | "minDecibels" | "maxDecibels" | "smoothingTimeConstant"
+>;
+
+/**
+ * Checks the analyser and playback settings, since the browser errors
+ * do not tell which prop is invalid
+ *
+ * @param settings The analyser settings, and the volume
+ * @throws An error describing the first invalid setting
+ */
+function validateAudioSettings({
+  fftSize,
+  minDecibels,
+  maxDecibels,
+  smoothingTimeConstant,
+  volume
+}: AnalyserSettings & { volume: number }) {
+  if (
+    !Number.isInteger(fftSize) ||
+    fftSize < 32 ||
+    fftSize > 32768 ||
+    (fftSize & (fftSize - 1)) !== 0
+  ) {
+    throw new Error(
+      `Invalid fftSize: ${fftSize}. It must be a power of 2 between 32 and 32768`
+    );
+  }
+
+  if (!(volume >= 0 && volume <= 1)) {
+    throw new Error(
+      `Invalid volume: ${volume}. It must be a number between 0 and 1`
+    );
+  }
+
+  if (!(minDecibels < maxDecibels)) {
+    throw new Error(
+      `Invalid decibel range: ${minDecibels} to ${maxDecibels}. minDecibels must be lower than maxDecibels`
+    );
+  }
+
+  if (!(smoothingTimeConstant >= 0 && smoothingTimeConstant <= 1)) {
+    throw new Error(
+      `Invalid smoothingTimeConstant: ${smoothingTimeConstant}. It must be a number between 0 and 1`
+    );
+  }
+}
+
+/**
+ * Applies the settings to an analyser node.
+ * The decibels are set in the order that keeps `minDecibels` below `maxDecibels`,
+ * since the node throws otherwise
+ *
+ * @param analyser The analyser node to configure
+ * @param settings The settings to apply, e.g. another analyser
+ */
+function configureAnalyser(
+  analyser: AnalyserNode,
+  { fftSize, minDecibels, maxDecibels, smoothingTimeConstant }: AnalyserSettings
+) {
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = smoothingTimeConstant;
+
+  if (minDecibels >= analyser.maxDecibels) {
+    analyser.maxDecibels = maxDecibels;
+    analyser.minDecibels = minDecibels;
+  } else {
+    analyser.minDecibels = minDecibels;
+    analyser.maxDecibels = maxDecibels;
+  }
+}
+
+/**
+ * Splits the output of an analyser node into one analyser per channel
+ * In mono, no analyser is created and the analyser data is used as is
+ *
+ * @param analyser The analyser node the audio source is connected to
+ * @param channels Whether to analyse the channels separately
+ * @returns The analysers of the left and right channels, or an empty array in mono
+ */
+function createChannelAnalysers(
+  analyser: AnalyserNode,
+  channels: AudioChannels
+): AnalyserNode[] {
+  /**
+   * The analyser only feeds the splitter, so this removes any previous one
+   */
+  analyser.disconnect();
+
+  if (channels === "mono") return [];
+
+  const splitter = analyser.context.createChannelSplitter(2);
+
+  analyser.connect(splitter);
+
+  return [0, 1].map(channel => {
+    const channelAnalyser = analyser.context.createAnalyser();
+
+    configureAnalyser(channelAnalyser, analyser);
+    splitter.connect(channelAnalyser, channel);
+
+    return channelAnalyser;
+  });
 }
 
 /**
@@ -45,7 +518,271 @@ function load(
  * The handlers are 2 functions, one starts the animation and the other stops it
  * Must be used in pair
  *
+ * On each frame, the analyser data is read once and passed to `onFrame`.
+ * The buffers are reused between frames, and reallocated only when the fftSize changes.
+ *
  * @param analyser The analyser node to use
+ * @param channelAnalysers The analysers of each channel, empty in mono
+ * @param onFrame The function to call on each frame
+ * @param getLevelsOptions Gets the format of the levels, read on each frame
+ * @returns A tuple of functions.
+ */
+function createAnimationHandlers(
+  analyser: AnalyserNode,
+  channelAnalysers: AnalyserNode[],
+  onFrame: (frame: AudioAnalyserFrame) => void,
+  getLevelsOptions: () => FrequencyLevelsOptions
+): [() => void, (idleFrame?: IdleFrame) => void] {
+  let frameID: number | null = null;
+
+  const analysers = [analyser, ...channelAnalysers];
+
+  const data: AudioAnalyserChannelData[] = analysers.map(() => ({
+    frequencyData: new Uint8Array(0),
+    timeDomainData: new Float32Array(0),
+    levels: new Float32Array(0)
+  }));
+
+  const readLevels = analysers.map(() => createLevelsReader());
+
+  const frame: AudioAnalyserFrame = {
+    ...data[0],
+    sampleRate: analyser.context.sampleRate,
+    timestamp: 0,
+    beat: 0,
+    channels: channelAnalysers.length > 0 ? data.slice(1) : [data[0]]
+  };
+
+  const draw = (timestamp = performance.now()) => {
+    const levelsOptions = getLevelsOptions();
+
+    analysers.forEach((node, i) => {
+      if (data[i].frequencyData.length !== node.frequencyBinCount) {
+        data[i].frequencyData = new Uint8Array(node.frequencyBinCount);
+        data[i].timeDomainData = new Float32Array(node.fftSize);
+        data[i].levels = new Float32Array(node.frequencyBinCount);
+      }
+
+      node.getByteFrequencyData(data[i].frequencyData);
+      node.getFloatTimeDomainData(data[i].timeDomainData);
+      readLevels[i](node, data[i].frequencyData, data[i].levels, levelsOptions);
+    });
+
+    frame.frequencyData = data[0].frequencyData;
+    frame.timeDomainData = data[0].timeDomainData;
+    frame.levels = data[0].levels;
+    frame.timestamp = timestamp;
+
+    onFrame(frame);
+
+    frameID = requestAnimationFrame(draw);
+  };
+
+  /**
+   * Starting an animation that is already running does nothing,
+   * so there is never more than one frame loop per analyser
+   */
+  const start = () => {
+    if (frameID === null) draw();
+  };
+
+  /**
+   * Stops the animation, then sends a last frame of silence
+   * so the listeners do not leave the last frame drawn, unless `idleFrame` is "freeze"
+   */
+  const stop = (idleFrame: IdleFrame = "freeze") => {
+    if (frameID === null) return;
+
+    cancelAnimationFrame(frameID);
+    frameID = null;
+
+    if (idleFrame === "freeze") return;
+
+    const silence = getSilentLevel(analyser, getLevelsOptions().dataFormat);
+
+    data.forEach(({ frequencyData, timeDomainData, levels }) => {
+      frequencyData.fill(0);
+      timeDomainData.fill(0);
+      levels.fill(silence);
+    });
+
+    frame.timestamp = performance.now();
+    frame.beat = 0;
+    frame.idle = idleFrame;
+
+    onFrame(frame);
+
+    delete frame.idle;
+  };
+
+  return [start, stop];
+}
+
+/**
+ * Creates the styling options passed to the renderers in place of the props.
+ * Each one forwards to the latest value in `styleRef`, so the renderers draw
+ * the new styling on their next frame, without being created again and losing their state
+ *
+ * @param styleRef The ref holding the latest styling options
+ * @returns Styling options that read from the ref
+ */
+function createLiveStyle(
+  styleRef: MutableRefObject<RendererStyleOptions>
+): RendererStyleOptions {
+  return {
+    barWidth: (width, length) => {
+      const { barWidth } = styleRef.current;
+
+      return typeof barWidth === "function" ? barWidth(width, length) : barWidth;
+    },
+    barHeight: (...args) => styleRef.current.barHeight(...args),
+    barColor: (...args) => {
+      const { barColor } = styleRef.current;
+
+      return typeof barColor === "function" ? barColor(...args) : barColor;
+    },
+    drawFunction: (ctx, args) => styleRef.current.drawFunction(ctx, args),
+    waveformDrawFunction: (ctx, args) =>
+      styleRef.current.waveformDrawFunction(ctx, args)
+  };
+}
+
+/**
+ * Clears the canvas and scales the context, so the frame can be drawn in CSS pixels
+ * while the canvas itself has `pixelRatio` times more pixels
+ *
+ * @param ctx The 2D context of the canvas
+ * @param canvas The reference to the canvas element
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ * @returns The width and height of the canvas, in CSS pixels
+ */
+function clearCanvas(
+  ctx: CanvasRenderingContext2D,
+  canvas: HTMLCanvasElement,
+  pixelRatio: number
+): [number, number] {
+  const width = canvas.width / pixelRatio;
+  const height = canvas.height / pixelRatio;
+
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  return [width, height];
+}
+
+/**
+ * Resizes the canvas to the given size in CSS pixels,
+ * with `pixelRatio` canvas pixels per CSS pixel so it stays sharp on HiDPI screens
+ *
+ * @param canvas The reference to the canvas element
+ * @param width The width of the canvas, in CSS pixels
+ * @param height The height of the canvas, in CSS pixels
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ */
+function resizeCanvas(
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  pixelRatio: number
+) {
+  const canvasWidth = Math.round(width * pixelRatio);
+  const canvasHeight = Math.round(height * pixelRatio);
+
+  /**
+   * Setting the size clears the canvas, so it is only done when it changes
+   */
+  if (canvas.width !== canvasWidth) canvas.width = canvasWidth;
+  if (canvas.height !== canvasHeight) canvas.height = canvasHeight;
+}
+
+/**
+ * The canvases whose CSS size has been checked, see `keepIntrinsicSize`
+ */
+const checkedCanvases = new WeakSet<HTMLCanvasElement>();
+
+/**
+ * Gives a canvas without a CSS size its current size as CSS size.
+ * Its size would follow its attributes otherwise, and grow by `pixelRatio` on each resize.
+ * The attributes are changed for a moment to find out whether the size follows them,
+ * so each canvas is only checked once, before it is resized
+ *
+ * @param canvas The reference to the canvas element
+ */
+function keepIntrinsicSize(canvas: HTMLCanvasElement) {
+  if (checkedCanvases.has(canvas)) return;
+
+  checkedCanvases.add(canvas);
+
+  const { width, height, clientWidth, clientHeight } = canvas;
+
+  /**
+   * The attributes of a canvas transferred to a worker cannot be changed
+   */
+  try {
+    canvas.width = width + 1;
+    canvas.height = height + 1;
+  } catch {
+    return;
+  }
+
+  const intrinsic =
+    canvas.clientWidth !== clientWidth && canvas.clientHeight !== clientHeight;
+
+  canvas.width = width;
+  canvas.height = height;
+
+  /**
+   * Without a CSS size, a canvas is one CSS pixel per canvas pixel
+   */
+  if (!intrinsic) return;
+
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+}
+
+/**
+ * The default width of the bars, the canvas width split evenly between the bars
+ */
+const defaultBarWidth: CustomBarWidthArg = (w, l) => w / l;
+
+/**
+ * The default height of the bars, half of the analyser value in the byte format
+ */
+const defaultBarHeight: CustomBarHeightArg = h => h * 0.5;
+
+/**
+ * Gets the default height of the bars for a data format,
+ * so the bars are as high in every format as with the byte data
+ *
+ * @param levelRange The level of silence and the highest level in the data format,
+ * see `getLevelRange`
+ * @returns `defaultBarHeight` for the byte format,
+ * otherwise a function that brings the levels to the byte range first
+ */
+function getDefaultBarHeight([minLevel, maxLevel]: [
+  number,
+  number
+]): CustomBarHeightArg {
+  if (minLevel === 0 && maxLevel === 255) return defaultBarHeight;
+
+  return (level, ...args) =>
+    defaultBarHeight(
+      Math.min(Math.max((level - minLevel) / (maxLevel - minLevel), 0), 1) * 255,
+      ...args
+    );
+}
+
+/**
+ * The default color of the bars, going around the hue wheel from the first bar to the last
+ */
+const defaultBarColor: CustomBarColorArg = (h, l, i) =>
+  `hsl(${(360 / l) * i}, ${h}%, 50%)`;
+
+/**
+ * Function to create the bars renderer
+ * The renderer draws the frequency data of a frame as bars on the canvas,
+ * one bar per frequency band
+ *
  * @param canvas The reference to the canvas element
  * @param stagger The number of frames to skip before drawing
  * @param barWidth The width of each bar
@@ -53,20 +790,31 @@ function load(
  * @param barColor The color of each bar
  * @param spaceBetweenBars The space between each bar
  * @param drawFunction The draw function to use
- * @returns A tuple of functions.
+ * @param bandsOptions How the analyser bins are grouped into bands
+ * @param layoutOptions How the bars are laid out on the canvas
+ * @param stereoLayout How the channels are laid out on the canvas, in stereo
+ * @param envelopeOptions How the bars rise and fall, and their peak caps
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ * @returns A function that draws a frame.
  */
-function createAnimationHandlers(
-  analyser: AnalyserNode,
+function createBarsRenderer(
   canvas: HTMLCanvasElement,
   stagger: number,
   barWidth: CustomBarWidthArg,
   barHeight: CustomBarHeightArg,
   barColor: CustomBarColorArg,
   spaceBetweenBars: number,
-  drawFunction: CustomDrawFunction
-): [() => void, () => void] {
-  let frameID: number;
+  drawFunction: CustomDrawFunction,
+  bandsOptions: FrequencyBandsOptions,
+  layoutOptions: BarsLayoutOptions,
+  stereoLayout: StereoLayout,
+  envelopeOptions: BarsEnvelopeOptions,
+  pixelRatio: number
+): AudioAnalyserListener {
   let frame = 0;
+  let lastTimestamp: number | null = null;
+
+  const bars = createBarsState(bandsOptions, envelopeOptions);
 
   const ctx = canvas.getContext("2d");
 
@@ -77,48 +825,416 @@ function createAnimationHandlers(
   const getBarWidth = typeof barWidth === "function" ? barWidth : () => barWidth;
   const getBarColor = typeof barColor === "function" ? barColor : () => barColor;
 
-  const draw = () => {
-    frame++;
+  const { layout, startAngle, sweep, direction } = layoutOptions;
+  const { peakCaps, peakHoldTime, peakFallSpeed, peakHeight, peakColor } =
+    envelopeOptions;
 
-    if (frame % stagger !== 0) {
-      frameID = requestAnimationFrame(draw);
-      return;
-    }
+  /**
+   * Draws the bars of one channel in a region of the given size,
+   * starting from the origin of the current transform
+   */
+  const drawChannel = (
+    c: number,
+    channel: AudioChannel,
+    width: number,
+    height: number,
+    timestamp: number,
+    elapsed: number,
+    beat: number
+  ) => {
+    const { bands, values, peaks, holds } = bars;
+    const centerX = width / 2;
+    const centerY = height / 2;
+    const radius = layoutOptions.innerRadius ?? Math.min(width, height) / 4;
 
-    let buffer = new Uint8Array(analyser.frequencyBinCount);
+    /**
+     * The length of the axis the bars are laid out along,
+     * passed to `barWidth` in place of the canvas width
+     */
+    const axisLength =
+      layout === "radial"
+        ? radius * Math.abs(sweep)
+        : layout === "vertical"
+          ? height
+          : width;
 
-    analyser.getByteFrequencyData(buffer);
+    let bw = getBarWidth(axisLength, bands.length);
 
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    let position = 0;
 
-    let bw = getBarWidth(canvas.width, buffer.length);
+    for (let i = 0; i < bands.length; i++) {
+      let bh = barHeight(values[c][i], bands.length, i, bands[i].frequency, beat);
 
-    let x = 0;
+      let peak = peakCaps
+        ? updatePeak(
+            peaks[c],
+            holds[c],
+            i,
+            bh,
+            timestamp,
+            elapsed,
+            peakHoldTime,
+            peakFallSpeed
+          )
+        : null;
 
-    for (let i = 0; i < buffer.length; i++) {
-      let bh = barHeight(buffer[i], buffer.length, i);
+      let x = position;
+      let y = height - bh;
+      let angle = 0;
 
-      ctx.fillStyle = getBarColor(bh, buffer.length, i);
+      switch (layout) {
+        case "top": {
+          y = 0;
+          break;
+        }
+
+        case "center": {
+          y = centerY - bh / 2;
+          break;
+        }
+
+        case "vertical": {
+          x = 0;
+          y = position;
+          break;
+        }
+
+        case "radial": {
+          angle =
+            startAngle +
+            (direction === "clockwise" ? 1 : -1) *
+              sweep *
+              ((i + 0.5) / bands.length);
+          x = centerX + Math.cos(angle) * radius;
+          y = centerY + Math.sin(angle) * radius;
+          break;
+        }
+      }
+
+      let color = getBarColor(bh, bands.length, i, bands[i].frequency, beat, {
+        ctx,
+        canvasWidth: width,
+        canvasHeight: height,
+        layout,
+        radius
+      });
+
+      ctx.fillStyle = color;
 
       drawFunction(ctx, {
-        canvasWidth: canvas.width,
-        canvasHeight: canvas.height,
+        canvasWidth: width,
+        canvasHeight: height,
         barWidth: bw,
         barHeight: bh,
         x,
-        bufferLength: buffer.length,
-        index: i
+        y,
+        bufferLength: bands.length,
+        index: i,
+        frequency: bands[i].frequency,
+        layout,
+        angle,
+        radius,
+        centerX,
+        centerY,
+        channel,
+        peak,
+        peakHeight,
+        peakColor: peakColor ?? color,
+        beat
       });
 
-      x += bw + spaceBetweenBars;
+      position += bw + spaceBetweenBars;
     }
+  };
 
-    frameID = requestAnimationFrame(draw);
+  return ({ channels, sampleRate, timestamp, beat, idle }) => {
+    frame++;
+
+    if (frame % stagger !== 0 && !idle) return;
+
+    /**
+     * The envelopes move by the time elapsed since the last drawn frame,
+     * so they do not depend on the frame rate or the stagger
+     */
+    const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+
+    lastTimestamp = idle ? null : timestamp;
+
+    bars.update(channels, sampleRate, elapsed, idle);
+
+    const [canvasWidth, canvasHeight] = clearCanvas(ctx, canvas, pixelRatio);
+
+    if (idle === "clear") return;
+
+    if (channels.length === 1) {
+      drawChannel(0, "mono", canvasWidth, canvasHeight, timestamp, elapsed, beat);
+      return;
+    }
+
+    /**
+     * In stereo, each channel is drawn in half of the canvas,
+     * flipped so that both channels start from the center
+     */
+    if (stereoLayout === "stacked") {
+      const height = canvasHeight / 2;
+
+      ctx.save();
+      drawChannel(0, "left", canvasWidth, height, timestamp, elapsed, beat);
+      ctx.restore();
+
+      ctx.save();
+      ctx.translate(0, canvasHeight);
+      ctx.scale(1, -1);
+      drawChannel(1, "right", canvasWidth, height, timestamp, elapsed, beat);
+      ctx.restore();
+    } else {
+      const width = canvasWidth / 2;
+
+      ctx.save();
+      ctx.translate(width, 0);
+      ctx.scale(-1, 1);
+      drawChannel(0, "left", width, canvasHeight, timestamp, elapsed, beat);
+      ctx.restore();
+
+      ctx.save();
+      ctx.translate(width, 0);
+      drawChannel(1, "right", width, canvasHeight, timestamp, elapsed, beat);
+      ctx.restore();
+    }
   };
+}
+
+/**
+ * The default function used to draw each bar
+ * Draws a rectangle from the default position, oriented along the layout,
+ * and its peak cap if there is one
+ *
+ * @param ctx The canvas context
+ * @param args The necessary args to draw the bar
+ */
+function drawBar(
+  ctx: CanvasRenderingContext2D,
+  {
+    canvasHeight,
+    barWidth,
+    barHeight,
+    x,
+    y,
+    layout,
+    angle,
+    radius,
+    centerX,
+    centerY,
+    peak,
+    peakHeight,
+    peakColor
+  }: CustomDrawFunctionArgs
+) {
+  switch (layout) {
+    case "vertical": {
+      ctx.fillRect(x, y, barHeight, barWidth);
+      break;
+    }
+
+    case "radial": {
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.rotate(angle);
+      ctx.fillRect(radius, -barWidth / 2, barHeight, barWidth);
+      ctx.restore();
+      break;
+    }
+
+    default: {
+      ctx.fillRect(x, y, barWidth, barHeight);
+    }
+  }
+
+  if (peak === null) return;
+
+  ctx.fillStyle = peakColor;
+
+  switch (layout) {
+    case "top": {
+      ctx.fillRect(x, peak, barWidth, peakHeight);
+      break;
+    }
+
+    case "center": {
+      ctx.fillRect(x, centerY - peak / 2 - peakHeight, barWidth, peakHeight);
+      ctx.fillRect(x, centerY + peak / 2, barWidth, peakHeight);
+      break;
+    }
 
-  const stop = () => cancelAnimationFrame(frameID);
+    case "vertical": {
+      ctx.fillRect(peak, y, peakHeight, barWidth);
+      break;
+    }
+
+    case "radial": {
+      ctx.save();
+      ctx.translate(centerX, centerY);
+      ctx.rotate(angle);
+      ctx.fillRect(radius + peak, -barWidth / 2, peakHeight, barWidth);
+      ctx.restore();
+      break;
+    }
 
-  return [draw, stop];
+    default: {
+      ctx.fillRect(x, canvasHeight - peak - peakHeight, barWidth, peakHeight);
+    }
+  }
+}
+
+/**
+ * Finds the first zero crossing of the samples in the given direction
+ *
+ * @param data The samples, from -1 to 1
+ * @param trigger The direction of the crossing
+ * @param limit The last index to look at
+ * @returns The index of the first sample after the crossing, 0 if there is none
+ */
+function findTrigger(
+  data: Float32Array,
+  trigger: WaveformTrigger,
+  limit: number
+): number {
+  if (trigger === "none") return 0;
+
+  for (let i = 1; i < limit; i++) {
+    if (trigger === "rising" && data[i - 1] < 0 && data[i] >= 0) return i;
+    if (trigger === "falling" && data[i - 1] > 0 && data[i] <= 0) return i;
+  }
+
+  return 0;
+}
+
+/**
+ * The default function used to draw the waveform
+ * Draws a line through every sample, or fills the area between the line and the center
+ *
+ * @param ctx The canvas context
+ * @param args The necessary args to draw the waveform
+ */
+function drawWaveform(
+  ctx: CanvasRenderingContext2D,
+  { canvasWidth, canvasHeight, data, scale, style }: CustomWaveformDrawFunctionArgs
+) {
+  const center = canvasHeight / 2;
+  const step = canvasWidth / Math.max(data.length - 1, 1);
+
+  ctx.beginPath();
+
+  for (let i = 0; i < data.length; i++) {
+    const y = center - data[i] * scale * center;
+
+    if (i === 0) {
+      ctx.moveTo(0, y);
+    } else {
+      ctx.lineTo(i * step, y);
+    }
+  }
+
+  if (style === "area") {
+    ctx.lineTo(canvasWidth, center);
+    ctx.lineTo(0, center);
+    ctx.closePath();
+    ctx.fill();
+  } else {
+    ctx.stroke();
+  }
+}
+
+/**
+ * Function to create the waveform renderer
+ * The renderer draws the time domain data of a frame like an oscilloscope
+ *
+ * @param canvas The reference to the canvas element
+ * @param stagger The number of frames to skip before drawing
+ * @param style Whether to draw a line or an area
+ * @param color The color of the waveform
+ * @param lineWidth The width of the line
+ * @param scale The vertical scale of the waveform
+ * @param trigger The zero crossing the waveform is aligned to
+ * @param drawFunction The draw function to use
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ * @returns A function that draws a frame.
+ */
+function createWaveformRenderer(
+  canvas: HTMLCanvasElement,
+  stagger: number,
+  style: WaveformStyle,
+  color: string | CanvasGradient | CanvasPattern,
+  lineWidth: number,
+  scale: number,
+  trigger: WaveformTrigger,
+  drawFunction: CustomWaveformDrawFunction,
+  pixelRatio: number
+): AudioAnalyserListener {
+  let frame = 0;
+
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not supported");
+  }
+
+  return ({ timeDomainData, idle }) => {
+    frame++;
+
+    if (frame % stagger !== 0 && !idle) return;
+
+    /**
+     * When aligning to a trigger, only half of the samples are drawn,
+     * so the window has the same length wherever the crossing is found
+     */
+    const length =
+      trigger === "none" ? timeDomainData.length : timeDomainData.length / 2;
+    const offset = findTrigger(timeDomainData, trigger, length);
+
+    const [canvasWidth, canvasHeight] = clearCanvas(ctx, canvas, pixelRatio);
+
+    if (idle === "clear") return;
+
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.lineWidth = lineWidth;
+
+    drawFunction(ctx, {
+      canvasWidth,
+      canvasHeight,
+      data: timeDomainData.subarray(offset, offset + length),
+      scale,
+      style
+    });
+  };
 }
 
-export { createAnimationHandlers, load };
+export {
+  attachMediaElement,
+  configureAnalyser,
+  createAnimationHandlers,
+  createBarsRenderer,
+  createChannelAnalysers,
+  createLiveStyle,
+  createWaveformRenderer,
+  defaultBarColor,
+  defaultBarHeight,
+  defaultBarWidth,
+  drawBar,
+  drawWaveform,
+  getDefaultBarHeight,
+  getMediaElementSource,
+  getMediaError,
+  isTainted,
+  keepIntrinsicSize,
+  load,
+  loadStream,
+  playMedia,
+  resizeCanvas,
+  resolveMediaElement,
+  resumeAudioContext,
+  unload,
+  validateAudioSettings
+};
+export type { BarsEnvelopeOptions, BarsLayoutOptions, RendererStyleOptions };
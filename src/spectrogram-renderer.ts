@@ -0,0 +1,322 @@
+import { getColormapData, getColormapStops } from "./colormaps";
+import {
+  aggregateBands,
+  createFrequencyBands,
+  getFrequencyPosition,
+  type FrequencyBand,
+  type FrequencyBandsOptions
+} from "./frequency-bands";
+import type { AudioAnalyserListener, Colormap, SpectrogramDirection } from "./types";
+
+/**
+ * The options of the spectrogram
+ */
+type SpectrogramOptions = {
+  direction: SpectrogramDirection;
+  scrollSpeed: number;
+  colormap: Colormap;
+  axes: boolean;
+  axisColor: string;
+};
+
+/**
+ * The frequencies that can be labeled on the frequency axis, in Hz
+ */
+const AXIS_FREQUENCIES = [
+  10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000
+];
+
+/**
+ * The steps that can be used between the labels of the time axis, in seconds
+ */
+const AXIS_TIME_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60];
+
+/**
+ * The minimum space between two labels of the frequency axis, in CSS pixels
+ */
+const FREQUENCY_LABEL_SPACING = 24;
+
+/**
+ * The minimum space between two labels of the time axis, in CSS pixels
+ */
+const TIME_LABEL_SPACING = 60;
+
+/**
+ * Formats a frequency for the frequency axis
+ *
+ * @param frequency The frequency in Hz
+ * @returns The frequency, in kHz from 1 kHz, e.g. "500" or "2k"
+ */
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+}
+
+/**
+ * Scrolls the history of the spectrogram to make room for the newest frame,
+ * on the right in the horizontal direction and at the top in the vertical direction
+ *
+ * @param image The history of the spectrogram
+ * @param direction The direction the spectrogram scrolls in
+ * @param step The number of pixels to scroll by
+ */
+function scrollImage(
+  image: ImageData,
+  direction: SpectrogramDirection,
+  step: number
+) {
+  const { data, width, height } = image;
+
+  if (direction === "vertical") {
+    data.copyWithin(step * width * 4, 0, (height - step) * width * 4);
+    return;
+  }
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4;
+
+    data.copyWithin(row, row + step * 4, row + width * 4);
+  }
+}
+
+/**
+ * Draws the frequency and time axes over the spectrogram
+ *
+ * @param ctx The canvas context, scaled to CSS pixels
+ * @param width The width of the canvas, in CSS pixels
+ * @param height The height of the canvas, in CSS pixels
+ * @param channelCount The number of channels drawn side by side
+ * @param sampleRate The sample rate of the audio context
+ * @param bandsOptions How the frequencies are laid out
+ * @param options The options of the spectrogram
+ * @param secondsPerPixel The time covered by a CSS pixel, 0 before it is known
+ */
+function drawAxes(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  channelCount: number,
+  sampleRate: number,
+  bandsOptions: FrequencyBandsOptions,
+  { direction, axisColor }: SpectrogramOptions,
+  secondsPerPixel: number
+) {
+  const horizontal = direction === "horizontal";
+  const regionLength = (horizontal ? height : width) / channelCount;
+  const timeLength = horizontal ? width : height;
+
+  ctx.fillStyle = axisColor;
+  ctx.font = "10px sans-serif";
+  ctx.textAlign = horizontal ? "left" : "center";
+  ctx.textBaseline = horizontal ? "middle" : "top";
+
+  for (let c = 0; c < channelCount; c++) {
+    let last = -Infinity;
+
+    AXIS_FREQUENCIES.forEach(frequency => {
+      const position =
+        getFrequencyPosition(frequency, sampleRate, bandsOptions) * regionLength;
+
+      /**
+       * The labels too close to the edges of the region, or to the previous label, are skipped
+       */
+      if (
+        position < FREQUENCY_LABEL_SPACING / 2 ||
+        position > regionLength - FREQUENCY_LABEL_SPACING / 2 ||
+        position - last < FREQUENCY_LABEL_SPACING
+      ) {
+        return;
+      }
+
+      last = position;
+
+      if (horizontal) {
+        const y = (c + 1) * regionLength - position;
+
+        ctx.fillRect(0, y, 4, 1);
+        ctx.fillText(formatFrequency(frequency), 6, y);
+      } else {
+        const x = c * regionLength + position;
+
+        ctx.fillRect(x, 0, 1, 4);
+        ctx.fillText(formatFrequency(frequency), x, 6);
+      }
+    });
+  }
+
+  if (!secondsPerPixel) return;
+
+  const step =
+    AXIS_TIME_STEPS.find(step => step / secondsPerPixel >= TIME_LABEL_SPACING) ??
+    AXIS_TIME_STEPS[AXIS_TIME_STEPS.length - 1];
+
+  ctx.textAlign = horizontal ? "center" : "right";
+  ctx.textBaseline = horizontal ? "bottom" : "middle";
+
+  for (let i = 1; (i * step) / secondsPerPixel < timeLength; i++) {
+    const offset = (i * step) / secondsPerPixel;
+    const label = `-${Number((i * step).toFixed(2))}s`;
+
+    if (horizontal) {
+      ctx.fillRect(width - offset, height - 4, 1, 4);
+      ctx.fillText(label, width - offset, height - 6);
+    } else {
+      ctx.fillRect(width - 4, offset, 4, 1);
+      ctx.fillText(label, width - 6, offset);
+    }
+  }
+}
+
+/**
+ * Function to create the spectrogram renderer
+ * The renderer keeps the history of the frequency data in an ImageData,
+ * scrolls it on each frame and draws the newest frame as a line of pixels,
+ * one pixel per frequency band. In stereo, the channels are drawn side by side
+ * along the frequency axis.
+ * The levels are read from the byte data, so `minDecibels` and `maxDecibels`
+ * set the range of the colormap.
+ *
+ * @param canvas The reference to the canvas element
+ * @param stagger The number of frames to skip before drawing
+ * @param bandsOptions How the analyser bins are grouped into bands,
+ * the number of bands being the number of pixels of the frequency axis
+ * @param spectrogramOptions The options of the spectrogram
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ * @returns A function that draws a frame.
+ */
+function createSpectrogramRenderer(
+  canvas: HTMLCanvasElement,
+  stagger: number,
+  bandsOptions: FrequencyBandsOptions,
+  spectrogramOptions: SpectrogramOptions,
+  pixelRatio: number
+): AudioAnalyserListener {
+  let frame = 0;
+  let lastTimestamp: number | null = null;
+
+  /**
+   * The average time between two drawn frames, to lay out the time axis
+   */
+  let frameDuration = 0;
+
+  /**
+   * The history of the spectrogram, in canvas pixels.
+   * It starts over when the canvas is resized, and is kept while the playback is stopped
+   */
+  let image: ImageData | null = null;
+
+  let bands: FrequencyBand[] = [];
+  let bandsKey = "";
+  let values = new Float32Array(0);
+
+  const ctx = canvas.getContext("2d");
+
+  if (!ctx) {
+    throw new Error("Canvas 2D context is not supported");
+  }
+
+  const { direction, scrollSpeed, colormap, axes } = spectrogramOptions;
+  const horizontal = direction === "horizontal";
+
+  /**
+   * The color of each byte level, in grayscale when the colormap cannot be sampled
+   */
+  const palette =
+    getColormapData(getColormapStops(colormap)) ??
+    Uint8ClampedArray.from({ length: 256 * 4 }, (_, i) =>
+      i % 4 === 3 ? 255 : i >> 2
+    );
+
+  return ({ channels, sampleRate, timestamp, idle }) => {
+    frame++;
+
+    if (frame % stagger !== 0 && !idle) return;
+
+    const { width, height } = canvas;
+
+    if (!width || !height) return;
+
+    if (!image || image.width !== width || image.height !== height) {
+      image = ctx.createImageData(width, height);
+    }
+
+    const timeLength = horizontal ? width : height;
+    const step = Math.min(
+      Math.max(Math.round(scrollSpeed * pixelRatio), 1),
+      timeLength
+    );
+
+    /**
+     * The idle frames do not scroll the history, so it is frozen until the playback resumes
+     */
+    if (idle === "clear") {
+      image.data.fill(0);
+    } else if (!idle) {
+      if (lastTimestamp !== null) {
+        const elapsed = timestamp - lastTimestamp;
+
+        frameDuration = frameDuration
+          ? frameDuration * 0.9 + elapsed * 0.1
+          : elapsed;
+      }
+
+      const { data } = image;
+      const regionLength = Math.floor(
+        (horizontal ? height : width) / channels.length
+      );
+      const binCount = channels[0].frequencyData.length;
+
+      if (bandsKey !== `${binCount}:${sampleRate}:${regionLength}`) {
+        bandsKey = `${binCount}:${sampleRate}:${regionLength}`;
+        bands = createFrequencyBands(binCount, sampleRate, {
+          ...bandsOptions,
+          barCount: regionLength
+        });
+        values = new Float32Array(regionLength);
+      }
+
+      scrollImage(image, direction, step);
+
+      channels.forEach(({ frequencyData }, c) => {
+        aggregateBands(frequencyData, bands, bandsOptions.bandAggregation, values);
+
+        for (let i = 0; i < regionLength; i++) {
+          const color = Math.round(values[i]) * 4;
+
+          for (let s = 0; s < step; s++) {
+            const index =
+              (horizontal
+                ? ((c + 1) * regionLength - 1 - i) * width + width - step + s
+                : s * width + c * regionLength + i) * 4;
+
+            data[index] = palette[color];
+            data[index + 1] = palette[color + 1];
+            data[index + 2] = palette[color + 2];
+            data[index + 3] = palette[color + 3];
+          }
+        }
+      });
+    }
+
+    lastTimestamp = idle ? null : timestamp;
+
+    ctx.putImageData(image, 0, 0);
+
+    if (!axes) return;
+
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+
+    drawAxes(
+      ctx,
+      width / pixelRatio,
+      height / pixelRatio,
+      channels.length,
+      sampleRate,
+      bandsOptions,
+      spectrogramOptions,
+      frameDuration / 1000 / (step / pixelRatio)
+    );
+  };
+}
+
+export { createSpectrogramRenderer };
+export type { SpectrogramOptions };
@@ -1,7 +1,35 @@
 import { Meta, StoryObj } from "@storybook/react";
 import React from "react";
-import { AudioVisualizer } from "..";
-import { AudioState } from "../types";
+import {
+  AudioVisualizer,
+  AudioVisualizerProvider,
+  createColormap,
+  equalizerPresets,
+  WaveformOverview
+} from "..";
+import {
+  AnalyserPosition,
+  AudioError,
+  AudioState,
+  AudioVisualizerHandle,
+  BarsLayout,
+  BeatBand,
+  ColormapGradient,
+  ColormapMapping,
+  ColormapName,
+  CustomDrawFunction,
+  EqualizerPreset,
+  FrequencyDataFormat,
+  FrequencyWeighting,
+  IdleFrame,
+  FrequencyScale,
+  PlaylistRepeat,
+  ReducedMotion,
+  ReducedMotionFallback,
+  SpectrogramDirection,
+  VisualizerMode,
+  VisualizerRenderer
+} from "../types";
 
 const meta: Meta<typeof AudioVisualizer> = {
   title: "AudioVisualizer",
@@ -29,6 +57,8 @@ export const Default: Story = {
     const [playbackRate, setPlaybackRate] = React.useState(1);
 
     const [spaceBetweenBars, setSpaceBetweenBars] = React.useState(1);
+    const [mode, setMode] = React.useState<VisualizerMode>("bars");
+    const [layout, setLayout] = React.useState<BarsLayout>("bottom");
     const [volume, setVolume] = React.useState(1);
 
     return (
@@ -84,6 +114,34 @@ export const Default: Story = {
             </select>
           </div>
 
+          <div style={{ display: "flex", gap: "2rem" }}>
+            <p>mode</p>
+            <select
+              value={mode}
+              onChange={e => setMode(e.target.value as VisualizerMode)}
+            >
+              {["bars", "waveform"].map(mode => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div style={{ display: "flex", gap: "2rem" }}>
+            <p>layout</p>
+            <select
+              value={layout}
+              onChange={e => setLayout(e.target.value as BarsLayout)}
+            >
+              {["bottom", "top", "center", "vertical", "radial"].map(layout => (
+                <option key={layout} value={layout}>
+                  {layout}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div style={{ display: "flex", gap: "2rem" }}>
             <p>playback rate</p>
             <select
@@ -131,6 +189,9 @@ export const Default: Story = {
               //autoStart={false}
               //barWidth={4}
               timeFactor={100}
+              mode={mode}
+              layout={layout}
+              waveformTrigger="rising"
               stagger={stagger}
               fftSize={fftSize}
               spaceBetweenBars={spaceBetweenBars}
@@ -147,43 +208,9 @@ export const Default: Story = {
                 setTime(0);
               }}
               barColor={(h, l, i) => `hsl(${(1360 / l) * i}, ${h}%, 50%)`}
-              customDrawFunction={(
-                ctx,
-                {
-                  x,
-                  barHeight,
-                  barWidth,
-                  canvasHeight,
-                  canvasWidth,
-                  index,
-                  bufferLength
-                }
-              ) => {
-                const threshold = 0.1;
-
-                if (Math.abs(x) < threshold) {
-                  ctx.fillRect(
-                    canvasWidth / 2 - barWidth / 2,
-                    canvasHeight - barHeight,
-                    barWidth,
-                    barHeight
-                  );
-                } else {
-                  ctx.fillRect(
-                    canvasWidth / 2 - x - barWidth / 2,
-                    canvasHeight - barHeight,
-                    barWidth,
-                    barHeight
-                  );
-
-                  ctx.fillRect(
-                    canvasWidth / 2 + x - barWidth / 2,
-                    canvasHeight - barHeight,
-                    barWidth,
-                    barHeight
-                  );
-                }
-              }}
+              customDrawFunction={
+                layout === "bottom" ? mirroredDrawFunction : undefined
+              }
             />
           )}
         </div>
@@ -191,3 +218,1019 @@ export const Default: Story = {
     );
   }
 };
+
+const mirroredDrawFunction: CustomDrawFunction = (
+  ctx,
+  { x, barHeight, barWidth, canvasHeight, canvasWidth }
+) => {
+  const threshold = 0.1;
+
+  if (Math.abs(x) < threshold) {
+    ctx.fillRect(
+      canvasWidth / 2 - barWidth / 2,
+      canvasHeight - barHeight,
+      barWidth,
+      barHeight
+    );
+  } else {
+    ctx.fillRect(
+      canvasWidth / 2 - x - barWidth / 2,
+      canvasHeight - barHeight,
+      barWidth,
+      barHeight
+    );
+
+    ctx.fillRect(
+      canvasWidth / 2 + x - barWidth / 2,
+      canvasHeight - barHeight,
+      barWidth,
+      barHeight
+    );
+  }
+};
+
+export const Microphone: Story = {
+  render: () => {
+    const [stream, setStream] = React.useState<MediaStream | null>(null);
+    const [audioState, setAudioState] = React.useState<AudioState>("unset");
+
+    const onClick = async () => {
+      if (stream) {
+        setAudioState(audioState === "playing" ? "paused" : "playing");
+        return;
+      }
+
+      setStream(await navigator.mediaDevices.getUserMedia({ audio: true }));
+    };
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <button onClick={onClick}>{stream ? audioState : "use microphone"}</button>
+        {stream && (
+          <AudioVisualizer
+            src={stream}
+            width={700}
+            height={300}
+            audioState={audioState}
+            onAudioStateChange={setAudioState}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const MediaElement: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const audioRef = React.useRef<HTMLAudioElement>(null);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <audio ref={audioRef} src={src} controls />
+        <AudioVisualizer mediaElement={audioRef} width={700} height={150} />
+        <AudioVisualizer mediaElement={audioRef} width={700} height={150} />
+      </div>
+    );
+  }
+};
+
+export const Overview: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [audio, setAudio] = React.useState<HTMLMediaElement | null>(null);
+    const [audioState, setAudioState] = React.useState<AudioState>("unset");
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <button
+          onClick={() =>
+            setAudioState(audioState === "playing" ? "paused" : "playing")
+          }
+        >
+          {audioState}
+        </button>
+        {src && (
+          <>
+            <AudioVisualizer
+              src={src}
+              width={700}
+              height={150}
+              audioState={audioState}
+              onAudioStateChange={setAudioState}
+              onSourceLoaded={setAudio}
+            />
+            <WaveformOverview
+              src={src}
+              mediaElement={audio}
+              width={700}
+              height={80}
+            />
+          </>
+        )}
+      </div>
+    );
+  }
+};
+
+export const Playlist: Story = {
+  render: () => {
+    const [tracks, setTracks] = React.useState<string[]>([]);
+    const [trackIndex, setTrackIndex] = React.useState(0);
+    const [crossfade, setCrossfade] = React.useState(3);
+    const [shuffle, setShuffle] = React.useState(false);
+    const [repeat, setRepeat] = React.useState<PlaylistRepeat>("off");
+    const ref = React.useRef<AudioVisualizerHandle>(null);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          multiple
+          onChange={e =>
+            setTracks(
+              Array.from(e.target.files ?? [], file => URL.createObjectURL(file))
+            )
+          }
+        />
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <button onClick={() => ref.current?.previous()}>previous</button>
+          <button onClick={() => ref.current?.next()}>next</button>
+          <label>
+            crossfade
+            <input
+              type="number"
+              min={0}
+              value={crossfade}
+              onChange={e => setCrossfade(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={shuffle}
+              onChange={e => setShuffle(e.target.checked)}
+            />
+            shuffle
+          </label>
+          <select
+            value={repeat}
+            onChange={e => setRepeat(e.target.value as PlaylistRepeat)}
+          >
+            <option value="off">repeat off</option>
+            <option value="one">repeat one</option>
+            <option value="all">repeat all</option>
+          </select>
+        </div>
+        <span>
+          track {trackIndex + 1} of {tracks.length}
+        </span>
+        {tracks.length > 0 && (
+          <AudioVisualizer
+            ref={ref}
+            playlist={tracks}
+            crossfade={crossfade}
+            shuffle={shuffle}
+            repeat={repeat}
+            onTrackChange={setTrackIndex}
+            width={700}
+            height={150}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Effects: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [equalizer, setEqualizer] = React.useState<EqualizerPreset>("flat");
+    const [gain, setGain] = React.useState(1);
+    const [pan, setPan] = React.useState(0);
+    const [compressor, setCompressor] = React.useState(false);
+    const [analyserPosition, setAnalyserPosition] =
+      React.useState<AnalyserPosition>("post");
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <select
+            value={equalizer}
+            onChange={e => setEqualizer(e.target.value as EqualizerPreset)}
+          >
+            {Object.keys(equalizerPresets).map(preset => (
+              <option key={preset} value={preset}>
+                {preset}
+              </option>
+            ))}
+          </select>
+          <label>
+            gain
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.01}
+              value={gain}
+              onChange={e => setGain(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            pan
+            <input
+              type="range"
+              min={-1}
+              max={1}
+              step={0.01}
+              value={pan}
+              onChange={e => setPan(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={compressor}
+              onChange={e => setCompressor(e.target.checked)}
+            />
+            compressor
+          </label>
+          <select
+            value={analyserPosition}
+            onChange={e => setAnalyserPosition(e.target.value as AnalyserPosition)}
+          >
+            <option value="pre">pre</option>
+            <option value="post">post</option>
+          </select>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            equalizer={equalizer}
+            gain={gain}
+            pan={pan}
+            compressor={compressor}
+            analyserPosition={analyserPosition}
+            width={700}
+            height={150}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Beats: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [beatBand, setBeatBand] = React.useState<BeatBand>("low");
+    const [tempo, setTempo] = React.useState<number | null>(null);
+    const [beats, setBeats] = React.useState(0);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <select
+            value={beatBand}
+            onChange={e => setBeatBand(e.target.value as BeatBand)}
+          >
+            <option value="low">low</option>
+            <option value="mid">mid</option>
+            <option value="high">high</option>
+            <option value="full">full</option>
+          </select>
+          <span>{tempo ?? "-"} BPM</span>
+          <span>{beats} beats</span>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            beatBand={beatBand}
+            onBeat={() => setBeats(count => count + 1)}
+            onTempoChange={setTempo}
+            barHeight={(height, _, __, ___, beat) => height * (0.5 + beat * 0.25)}
+            barColor={(_, length, index, __, beat) =>
+              `hsl(${(360 / length) * index}, 100%, ${50 + beat * 30}%)`
+            }
+            width={700}
+            height={150}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Responsive: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ resize: "both", overflow: "hidden", width: 700, height: 200 }}>
+          {src && (
+            <AudioVisualizer
+              src={src}
+              responsive
+              style={{ display: "block", width: "100%", height: "100%" }}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+};
+
+export const Offscreen: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const audioRef = React.useRef<HTMLAudioElement>(null);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <audio ref={audioRef} src={src} controls />
+        {Array.from({ length: 6 }, (_, i) => (
+          <AudioVisualizer
+            key={i}
+            mediaElement={audioRef}
+            offscreen
+            barColor="#0af"
+            layout={i % 2 === 0 ? "bottom" : "center"}
+            width={700}
+            height={80}
+          />
+        ))}
+      </div>
+    );
+  }
+};
+
+const glowShader = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+in float v_index;
+uniform float u_count;
+uniform float u_beat;
+uniform bool u_peak;
+out vec4 fragColor;
+
+void main() {
+  vec3 base = mix(vec3(0.1, 0.4, 1.0), vec3(1.0, 0.3, 0.6), v_index / u_count);
+  vec3 color = u_peak ? vec3(1.0) : mix(base, vec3(1.0), v_uv.y * u_beat);
+
+  fragColor = vec4(color, 0.5 + 0.5 * v_uv.y);
+}`;
+
+export const WebGL: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [renderer, setRenderer] = React.useState<VisualizerRenderer>("webgl");
+    const [shader, setShader] = React.useState(false);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <select
+            value={renderer}
+            onChange={e => setRenderer(e.target.value as VisualizerRenderer)}
+          >
+            <option value="2d">2d</option>
+            <option value="webgl">webgl</option>
+          </select>
+          <label>
+            <input
+              type="checkbox"
+              checked={shader}
+              onChange={e => setShader(e.target.checked)}
+            />
+            Custom shader
+          </label>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            fftSize={16384}
+            renderer={renderer}
+            fragmentShader={shader ? glowShader : undefined}
+            spaceBetweenBars={0}
+            peakCaps
+            width={700}
+            height={150}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Svg: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <style>{`
+          .now-playing-bar {
+            fill: #0af;
+            opacity: calc(0.4 + var(--value) * 0.6);
+          }
+        `}</style>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <AudioVisualizer
+          src={src}
+          renderer="svg"
+          barCount={5}
+          spaceBetweenBars={4}
+          barWidth={(width, count) => (width - 4 * (count - 1)) / count}
+          barClassName="now-playing-bar"
+          width={40}
+          height={24}
+        />
+        <AudioVisualizer
+          src={src}
+          renderer="svg"
+          barCount={32}
+          layout="center"
+          peakCaps
+          width={700}
+          height={150}
+        />
+      </div>
+    );
+  }
+};
+
+export const Provider: Story = {
+  render: () => {
+    const [sources, setSources] = React.useState<Record<string, string>>({});
+    const [pauseOthers, setPauseOthers] = React.useState(true);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          multiple
+          onChange={e =>
+            setSources(
+              Object.fromEntries(
+                Array.from(e.target.files ?? [], (file, i) => [
+                  `source-${i}`,
+                  URL.createObjectURL(file)
+                ])
+              )
+            )
+          }
+        />
+        <label>
+          <input
+            type="checkbox"
+            checked={pauseOthers}
+            onChange={e => setPauseOthers(e.target.checked)}
+          />
+          Pause others
+        </label>
+        <AudioVisualizerProvider sources={sources} pauseOthers={pauseOthers}>
+          {Object.keys(sources).map(id => (
+            <ProviderSource key={id} id={id} />
+          ))}
+        </AudioVisualizerProvider>
+      </div>
+    );
+  }
+};
+
+const ProviderSource = ({ id }: { id: string }) => {
+  const [audioState, setAudioState] = React.useState<AudioState>("unset");
+
+  return (
+    <div style={{ display: "flex", flexDirection: "column", gap: "0.5rem" }}>
+      <button
+        onClick={() =>
+          setAudioState(audioState === "playing" ? "paused" : "playing")
+        }
+      >
+        {audioState === "playing" ? "Pause" : "Play"} {id}
+      </button>
+      <AudioVisualizer
+        sourceId={id}
+        audioState={audioState}
+        onAudioStateChange={setAudioState}
+        width={700}
+        height={100}
+      />
+      <AudioVisualizer
+        sourceId={id}
+        audioState={audioState}
+        onAudioStateChange={setAudioState}
+        mode="waveform"
+        fftSize={2048}
+        width={700}
+        height={60}
+      />
+    </div>
+  );
+};
+
+export const Errors: Story = {
+  render: () => {
+    const ref = React.useRef<AudioVisualizerHandle>(null);
+    const [src, setSrc] = React.useState("");
+    const [audioState, setAudioState] = React.useState<AudioState>("unset");
+    const [error, setError] = React.useState<AudioError | null>(null);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="url"
+          placeholder="Audio url, e.g. on a server without CORS"
+          onChange={e => {
+            setError(null);
+            setSrc(e.target.value);
+          }}
+        />
+        <span>
+          {audioState}
+          {error && `: ${error.kind}`}
+        </span>
+        {audioState === "blocked" && (
+          <button onClick={() => ref.current?.resume()}>Resume</button>
+        )}
+        <AudioVisualizer
+          ref={ref}
+          src={src}
+          audioState={audioState}
+          onAudioStateChange={setAudioState}
+          onError={setError}
+          width={700}
+          height={300}
+        />
+      </div>
+    );
+  }
+};
+
+export const LiveStyling: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [dark, setDark] = React.useState(true);
+    const [idleFrame, setIdleFrame] = React.useState<IdleFrame>("rest");
+    const [audioState, setAudioState] = React.useState<AudioState>("unset");
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem" }}>
+          <button
+            onClick={() =>
+              setAudioState(audioState === "playing" ? "paused" : "playing")
+            }
+          >
+            {audioState === "playing" ? "Pause" : "Play"}
+          </button>
+          <label>
+            <input
+              type="checkbox"
+              checked={dark}
+              onChange={e => setDark(e.target.checked)}
+            />
+            Dark theme
+          </label>
+          <select
+            value={idleFrame}
+            onChange={e => setIdleFrame(e.target.value as IdleFrame)}
+          >
+            <option value="freeze">freeze</option>
+            <option value="rest">rest</option>
+            <option value="clear">clear</option>
+          </select>
+        </div>
+        <div style={{ background: dark ? "black" : "white" }}>
+          {src && (
+            <AudioVisualizer
+              src={src}
+              barColor={dark ? "white" : "black"}
+              barHeight={h => h * 0.5 + 2}
+              release={200}
+              peakCaps
+              idleFrame={idleFrame}
+              audioState={audioState}
+              onAudioStateChange={setAudioState}
+              width={700}
+              height={300}
+            />
+          )}
+        </div>
+      </div>
+    );
+  }
+};
+
+export const AnalyserTuning: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [dataFormat, setDataFormat] =
+      React.useState<FrequencyDataFormat>("normalized");
+    const [weighting, setWeighting] = React.useState<FrequencyWeighting>("none");
+    const [minDecibels, setMinDecibels] = React.useState(-100);
+    const [maxDecibels, setMaxDecibels] = React.useState(-30);
+    const [smoothing, setSmoothing] = React.useState(0.8);
+    const [gamma, setGamma] = React.useState(1);
+
+    const height = 300;
+
+    /**
+     * The levels are mapped to the height of the canvas in each format
+     */
+    const barHeight = (level: number) => {
+      switch (dataFormat) {
+        case "float-db":
+          return ((level - minDecibels) / (maxDecibels - minDecibels)) * height;
+        case "normalized":
+          return level * height;
+        default:
+          return (level / 255) * height;
+      }
+    };
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+          <select
+            value={dataFormat}
+            onChange={e => setDataFormat(e.target.value as FrequencyDataFormat)}
+          >
+            <option value="byte">byte</option>
+            <option value="float-db">float-db</option>
+            <option value="normalized">normalized</option>
+          </select>
+          <select
+            value={weighting}
+            onChange={e => setWeighting(e.target.value as FrequencyWeighting)}
+          >
+            <option value="none">No weighting</option>
+            <option value="a">A-weighting</option>
+          </select>
+          <label>
+            Min dB
+            <input
+              type="range"
+              min={-140}
+              max={-60}
+              value={minDecibels}
+              onChange={e => setMinDecibels(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            Max dB
+            <input
+              type="range"
+              min={-50}
+              max={0}
+              value={maxDecibels}
+              onChange={e => setMaxDecibels(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            Smoothing
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={smoothing}
+              onChange={e => setSmoothing(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            Gamma
+            <input
+              type="range"
+              min={0.25}
+              max={3}
+              step={0.25}
+              value={gamma}
+              onChange={e => setGamma(Number(e.target.value))}
+            />
+          </label>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            fftSize={2048}
+            minDecibels={minDecibels}
+            maxDecibels={maxDecibels}
+            smoothingTimeConstant={smoothing}
+            dataFormat={dataFormat}
+            gamma={gamma}
+            frequencyWeighting={weighting}
+            barHeight={barHeight}
+            barCount={64}
+            frequencyScale="log"
+            width={700}
+            height={height}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Colormaps: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [colormap, setColormap] = React.useState<ColormapName>("viridis");
+    const [mapping, setMapping] = React.useState<ColormapMapping>("height");
+    const [gradient, setGradient] = React.useState<ColormapGradient>("none");
+    const [layout, setLayout] = React.useState<BarsLayout>("bottom");
+
+    /**
+     * The colormap keeps its gradients, so it is only created again when its options change
+     */
+    const barColor = React.useMemo(
+      () => createColormap(colormap, { mapping, gradient }),
+      [colormap, mapping, gradient]
+    );
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+          <select
+            value={colormap}
+            onChange={e => setColormap(e.target.value as ColormapName)}
+          >
+            <option value="viridis">viridis</option>
+            <option value="magma">magma</option>
+            <option value="inferno">inferno</option>
+          </select>
+          <select
+            value={mapping}
+            onChange={e => setMapping(e.target.value as ColormapMapping)}
+          >
+            <option value="height">height</option>
+            <option value="frequency">frequency</option>
+            <option value="time">time</option>
+          </select>
+          <select
+            value={gradient}
+            onChange={e => setGradient(e.target.value as ColormapGradient)}
+          >
+            <option value="none">No gradient</option>
+            <option value="canvas">canvas</option>
+            <option value="bar">bar</option>
+          </select>
+          <select
+            value={layout}
+            onChange={e => setLayout(e.target.value as BarsLayout)}
+          >
+            <option value="bottom">bottom</option>
+            <option value="top">top</option>
+            <option value="center">center</option>
+            <option value="vertical">vertical</option>
+            <option value="radial">radial</option>
+          </select>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            barColor={barColor}
+            layout={layout}
+            barCount={64}
+            frequencyScale="log"
+            width={700}
+            height={300}
+            style={{ background: "black" }}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Spectrogram: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [direction, setDirection] =
+      React.useState<SpectrogramDirection>("horizontal");
+    const [frequencyScale, setFrequencyScale] =
+      React.useState<FrequencyScale>("log");
+    const [colormap, setColormap] = React.useState<ColormapName>("inferno");
+    const [scrollSpeed, setScrollSpeed] = React.useState(1);
+    const [axes, setAxes] = React.useState(true);
+    const [offscreen, setOffscreen] = React.useState(false);
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+          <select
+            value={direction}
+            onChange={e => setDirection(e.target.value as SpectrogramDirection)}
+          >
+            <option value="horizontal">horizontal</option>
+            <option value="vertical">vertical</option>
+          </select>
+          <select
+            value={frequencyScale}
+            onChange={e => setFrequencyScale(e.target.value as FrequencyScale)}
+          >
+            <option value="linear">linear</option>
+            <option value="log">log</option>
+            <option value="mel">mel</option>
+            <option value="bark">bark</option>
+          </select>
+          <select
+            value={colormap}
+            onChange={e => setColormap(e.target.value as ColormapName)}
+          >
+            <option value="viridis">viridis</option>
+            <option value="magma">magma</option>
+            <option value="inferno">inferno</option>
+          </select>
+          <label>
+            Scroll speed
+            <input
+              type="range"
+              min={1}
+              max={8}
+              value={scrollSpeed}
+              onChange={e => setScrollSpeed(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={axes}
+              onChange={e => setAxes(e.target.checked)}
+            />
+            Axes
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={offscreen}
+              onChange={e => setOffscreen(e.target.checked)}
+            />
+            Offscreen
+          </label>
+        </div>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            mode="spectrogram"
+            fftSize={4096}
+            spectrogramDirection={direction}
+            frequencyScale={frequencyScale}
+            colormap={colormap}
+            scrollSpeed={scrollSpeed}
+            spectrogramAxes={axes}
+            offscreen={offscreen}
+            width={700}
+            height={300}
+            style={{ background: "black" }}
+          />
+        )}
+      </div>
+    );
+  }
+};
+
+export const Accessibility: Story = {
+  render: () => {
+    const [src, setSrc] = React.useState<string | undefined>(undefined);
+    const [audioState, setAudioState] = React.useState<AudioState>("unset");
+    const [volume, setVolume] = React.useState(1);
+    const [reducedMotion, setReducedMotion] = React.useState<ReducedMotion>("user");
+    const [fallback, setFallback] =
+      React.useState<ReducedMotionFallback>("low-frame-rate");
+
+    return (
+      <div style={{ display: "flex", flexDirection: "column", gap: "1rem" }}>
+        <input
+          type="file"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) setSrc(URL.createObjectURL(file));
+          }}
+        />
+        <div style={{ display: "flex", gap: "1rem", flexWrap: "wrap" }}>
+          <select
+            value={reducedMotion}
+            onChange={e => setReducedMotion(e.target.value as ReducedMotion)}
+          >
+            <option value="user">Follow the user setting</option>
+            <option value="always">Always reduce motion</option>
+            <option value="never">Never reduce motion</option>
+          </select>
+          <select
+            value={fallback}
+            onChange={e => setFallback(e.target.value as ReducedMotionFallback)}
+          >
+            <option value="low-frame-rate">low-frame-rate</option>
+            <option value="level-meter">level-meter</option>
+          </select>
+          <span>
+            {audioState}, volume {Math.round(volume * 100)}%
+          </span>
+        </div>
+        <p>Focus the visualizer, then use space, the arrows, + and -</p>
+        {src && (
+          <AudioVisualizer
+            src={src}
+            ariaLabel="Spectrum of the selected file"
+            keyboardControls
+            audioState={audioState}
+            onAudioStateChange={setAudioState}
+            volume={volume}
+            onVolumeChange={setVolume}
+            reducedMotion={reducedMotion}
+            reducedMotionFallback={fallback}
+            width={500}
+            height={200}
+            style={{ outlineOffset: 2 }}
+          />
+        )}
+      </div>
+    );
+  }
+};
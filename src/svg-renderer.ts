@@ -0,0 +1,393 @@
+import { createBarsState } from "./bars-state";
+import { updatePeak } from "./envelope";
+import type { FrequencyBandsOptions } from "./frequency-bands";
+import type { BarsEnvelopeOptions, BarsLayoutOptions } from "./scripts";
+import type {
+  AudioAnalyserListener,
+  AudioChannel,
+  BarsLayout,
+  CustomBarClassNameArg,
+  CustomBarColorArg,
+  CustomBarHeightArg,
+  CustomBarWidthArg,
+  StereoLayout
+} from "./types";
+
+/**
+ * Escapes a value so it can be put in a double-quoted attribute
+ *
+ * @param value The value to escape
+ * @returns The escaped value
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+/**
+ * Gets the number of peak caps drawn for each bar
+ *
+ * @param layout The layout of the bars
+ * @param peakCaps Whether the peak caps are drawn
+ * @returns The number of peak caps of each bar, two in the center layout
+ */
+function getPeaksPerBar(layout: BarsLayout, peakCaps: boolean): number {
+  if (!peakCaps) return 0;
+
+  return layout === "center" ? 2 : 1;
+}
+
+/**
+ * Creates the markup of the bars: a `<g>` per channel, with a `<rect>` per bar
+ * followed by the `<rect>` of the peak caps.
+ * It is used both as the server-rendered placeholder and by the renderer,
+ * so the renderer can take over the placeholder without replacing it.
+ *
+ * Each `<rect>` has the class returned by `barClassName`, a `data-index` attribute,
+ * and a `--index` custom property. The peak caps also have a `data-peak` attribute
+ *
+ * @param channels The channel of each `<g>`
+ * @param barCount The number of bars of each channel
+ * @param peaksPerBar The number of peak caps of each bar
+ * @param barClassName The CSS class of each bar
+ * @returns The markup of the bars
+ */
+function createSvgBarsMarkup(
+  channels: AudioChannel[],
+  barCount: number,
+  peaksPerBar: number,
+  barClassName?: CustomBarClassNameArg
+): string {
+  const getClassName =
+    typeof barClassName === "function" ? barClassName : () => barClassName;
+
+  let bars = "";
+  let peaks = "";
+
+  for (let i = 0; i < barCount; i++) {
+    const className = getClassName(i, barCount);
+    const attributes = `${
+      className ? ` class="${escapeAttribute(className)}"` : ""
+    } data-index="${i}"`;
+
+    bars += `<rect${attributes} style="--index: ${i}; --value: 0"></rect>`;
+
+    for (let p = 0; p < peaksPerBar; p++) {
+      peaks += `<rect${attributes} data-peak="" style="--index: ${i}"></rect>`;
+    }
+  }
+
+  return channels
+    .map(channel => `<g data-channel="${channel}">${bars}${peaks}</g>`)
+    .join("");
+}
+
+/**
+ * Sets the position and size of a `<rect>`
+ *
+ * @param rect The element to update
+ * @param x The x coordinate of the rect
+ * @param y The y coordinate of the rect
+ * @param width The width of the rect
+ * @param height The height of the rect
+ */
+function setRect(
+  rect: Element,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  rect.setAttribute("x", String(x));
+  rect.setAttribute("y", String(y));
+  rect.setAttribute("width", String(Math.max(width, 0)));
+  rect.setAttribute("height", String(Math.max(height, 0)));
+}
+
+/**
+ * Function to create the SVG bars renderer
+ * The renderer draws the same bars as `createBarsRenderer`, as `<rect>` elements
+ * whose attributes are written on each frame, without rendering the component again.
+ * Each bar also gets its level, brought from 0 to 1 whatever the data format,
+ * as the `--value` custom property, so it can be styled with CSS
+ *
+ * @param root The `<g>` element that holds the bars, which may contain the placeholder
+ * @param width The width of the SVG viewBox
+ * @param height The height of the SVG viewBox
+ * @param stagger The number of frames to skip before drawing
+ * @param barWidth The width of each bar
+ * @param barHeight The height of each bar
+ * @param barColor The color of each bar, only strings can be used as a fill
+ * @param spaceBetweenBars The space between each bar
+ * @param barClassName The CSS class of each bar
+ * @param bandsOptions How the analyser bins are grouped into bands
+ * @param layoutOptions How the bars are laid out
+ * @param stereoLayout How the channels are laid out, in stereo
+ * @param envelopeOptions How the bars rise and fall, and their peak caps
+ * @param levelRange The level of silence and the highest level in the data format,
+ * see `getLevelRange`
+ * @returns A function that draws a frame.
+ */
+function createSvgBarsRenderer(
+  root: SVGGElement,
+  width: number,
+  height: number,
+  stagger: number,
+  barWidth: CustomBarWidthArg,
+  barHeight: CustomBarHeightArg,
+  barColor: CustomBarColorArg,
+  spaceBetweenBars: number,
+  barClassName: CustomBarClassNameArg | undefined,
+  bandsOptions: FrequencyBandsOptions,
+  layoutOptions: BarsLayoutOptions,
+  stereoLayout: StereoLayout,
+  envelopeOptions: BarsEnvelopeOptions,
+  [minLevel, maxLevel]: [number, number]
+): AudioAnalyserListener {
+  let frame = 0;
+  let lastTimestamp: number | null = null;
+
+  const bars = createBarsState(bandsOptions, envelopeOptions);
+
+  /**
+   * The `<g>` of each channel
+   */
+  let groups: Element[] = [];
+
+  const getBarWidth = typeof barWidth === "function" ? barWidth : () => barWidth;
+  const getBarColor = typeof barColor === "function" ? barColor : () => barColor;
+
+  const { layout, startAngle, sweep, direction } = layoutOptions;
+  const { peakCaps, peakHoldTime, peakFallSpeed, peakHeight, peakColor } =
+    envelopeOptions;
+
+  const peaksPerBar = getPeaksPerBar(layout, peakCaps);
+
+  /**
+   * Creates the elements of the bars, or takes over the existing ones
+   * when they match, like the server-rendered placeholder
+   */
+  const mount = (channels: AudioChannel[]) => {
+    const { bands } = bars;
+    const rectCount = bands.length * (1 + peaksPerBar);
+
+    const matches =
+      root.children.length === channels.length &&
+      [...root.children].every(
+        (group, c) =>
+          group.getAttribute("data-channel") === channels[c] &&
+          group.children.length === rectCount
+      );
+
+    if (!matches) {
+      root.innerHTML = createSvgBarsMarkup(
+        channels,
+        bands.length,
+        peaksPerBar,
+        barClassName
+      );
+    }
+
+    groups = [...root.children];
+
+    /**
+     * In stereo, each channel is drawn in half of the viewBox,
+     * flipped so that both channels start from the center
+     */
+    if (channels.length === 2) {
+      const transforms =
+        stereoLayout === "stacked"
+          ? ["", `translate(0 ${height}) scale(1 -1)`]
+          : [`translate(${width / 2} 0) scale(-1 1)`, `translate(${width / 2} 0)`];
+
+      groups.forEach((group, c) => group.setAttribute("transform", transforms[c]));
+    }
+  };
+
+  /**
+   * Updates the bars of one channel, in a region of the given size
+   */
+  const drawChannel = (
+    c: number,
+    regionWidth: number,
+    regionHeight: number,
+    timestamp: number,
+    elapsed: number,
+    beat: number
+  ) => {
+    const { bands, values, peaks, holds } = bars;
+    const rects = groups[c].children;
+    const centerX = regionWidth / 2;
+    const centerY = regionHeight / 2;
+    const radius =
+      layoutOptions.innerRadius ?? Math.min(regionWidth, regionHeight) / 4;
+
+    const axisLength =
+      layout === "radial"
+        ? radius * Math.abs(sweep)
+        : layout === "vertical"
+          ? regionHeight
+          : regionWidth;
+
+    const bw = getBarWidth(axisLength, bands.length);
+
+    let position = 0;
+
+    for (let i = 0; i < bands.length; i++) {
+      const bh = barHeight(values[c][i], bands.length, i, bands[i].frequency, beat);
+      const color = getBarColor(bh, bands.length, i, bands[i].frequency, beat, {
+        ctx: null,
+        canvasWidth: regionWidth,
+        canvasHeight: regionHeight,
+        layout,
+        radius
+      });
+
+      const bar = rects[i];
+      const caps = Array.from(
+        { length: peaksPerBar },
+        (_, p) => rects[bands.length + i * peaksPerBar + p]
+      );
+
+      const peak = peakCaps
+        ? updatePeak(
+            peaks[c],
+            holds[c],
+            i,
+            bh,
+            timestamp,
+            elapsed,
+            peakHoldTime,
+            peakFallSpeed
+          )
+        : 0;
+
+      switch (layout) {
+        case "top": {
+          setRect(bar, position, 0, bw, bh);
+          if (peakCaps) setRect(caps[0], position, peak, bw, peakHeight);
+          break;
+        }
+
+        case "center": {
+          setRect(bar, position, centerY - bh / 2, bw, bh);
+
+          if (peakCaps) {
+            setRect(
+              caps[0],
+              position,
+              centerY - peak / 2 - peakHeight,
+              bw,
+              peakHeight
+            );
+            setRect(caps[1], position, centerY + peak / 2, bw, peakHeight);
+          }
+          break;
+        }
+
+        case "vertical": {
+          setRect(bar, 0, position, bh, bw);
+          if (peakCaps) setRect(caps[0], peak, position, peakHeight, bw);
+          break;
+        }
+
+        /**
+         * The radial bars are drawn from the inner circle, then rotated around the center
+         */
+        case "radial": {
+          const angle =
+            startAngle +
+            (direction === "clockwise" ? 1 : -1) *
+              sweep *
+              ((i + 0.5) / bands.length);
+          const transform = `translate(${centerX} ${centerY}) rotate(${
+            (angle * 180) / Math.PI
+          })`;
+
+          setRect(bar, radius, -bw / 2, bh, bw);
+          bar.setAttribute("transform", transform);
+
+          if (peakCaps) {
+            setRect(caps[0], radius + peak, -bw / 2, peakHeight, bw);
+            caps[0].setAttribute("transform", transform);
+          }
+          break;
+        }
+
+        default: {
+          setRect(bar, position, regionHeight - bh, bw, bh);
+
+          if (peakCaps) {
+            setRect(
+              caps[0],
+              position,
+              regionHeight - peak - peakHeight,
+              bw,
+              peakHeight
+            );
+          }
+        }
+      }
+
+      const value = Math.min(
+        Math.max((values[c][i] - minLevel) / (maxLevel - minLevel), 0),
+        1
+      );
+
+      (bar as SVGElement).style.setProperty("--value", String(value));
+
+      if (typeof color === "string") bar.setAttribute("fill", color);
+
+      const capColor = peakColor ?? color;
+
+      if (typeof capColor === "string") {
+        caps.forEach(cap => cap.setAttribute("fill", capColor));
+      }
+
+      position += bw + spaceBetweenBars;
+    }
+  };
+
+  return ({ channels, sampleRate, timestamp, beat, idle }) => {
+    frame++;
+
+    if (frame % stagger !== 0 && !idle) return;
+
+    const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+
+    lastTimestamp = idle ? null : timestamp;
+
+    const names: AudioChannel[] =
+      channels.length === 1 ? ["mono"] : ["left", "right"];
+
+    /**
+     * The bars are mounted again when the bands change, or if their elements
+     * have been replaced, e.g. when the placeholder is rendered again with a different markup
+     */
+    if (
+      bars.update(channels, sampleRate, elapsed, idle) ||
+      groups[0]?.parentNode !== root
+    ) {
+      mount(names);
+    }
+
+    /**
+     * The elements are removed to clear the bars, and mounted again on the next frame
+     */
+    if (idle === "clear") {
+      root.replaceChildren();
+      return;
+    }
+
+    if (channels.length === 1) {
+      drawChannel(0, width, height, timestamp, elapsed, beat);
+    } else if (stereoLayout === "stacked") {
+      drawChannel(0, width, height / 2, timestamp, elapsed, beat);
+      drawChannel(1, width, height / 2, timestamp, elapsed, beat);
+    } else {
+      drawChannel(0, width / 2, height, timestamp, elapsed, beat);
+      drawChannel(1, width / 2, height, timestamp, elapsed, beat);
+    }
+  };
+}
+
+export { createSvgBarsMarkup, createSvgBarsRenderer, getPeaksPerBar };
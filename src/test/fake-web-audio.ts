@@ -0,0 +1,194 @@
+import { vi } from "vitest";
+
+/**
+ * A minimal fake of the Web Audio API, enough for the audio graph of the hook:
+ * the nodes only record what they are connected to, and the analysers return silence
+ */
+class FakeAudioParam {
+  value = 0;
+
+  setValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+
+  setTargetAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+}
+
+class FakeAudioNode {
+  readonly connections = new Set<FakeAudioNode>();
+
+  constructor(readonly context: FakeAudioContext) {
+    context.nodes.push(this);
+  }
+
+  connect = vi.fn((destination: FakeAudioNode) => {
+    this.connections.add(destination);
+    return destination;
+  });
+
+  disconnect = vi.fn((destination?: FakeAudioNode) => {
+    if (destination) {
+      this.connections.delete(destination);
+    } else {
+      this.connections.clear();
+    }
+  });
+}
+
+class FakeAnalyserNode extends FakeAudioNode {
+  fftSize = 2048;
+  minDecibels = -100;
+  maxDecibels = -30;
+  smoothingTimeConstant = 0.8;
+
+  get frequencyBinCount() {
+    return this.fftSize / 2;
+  }
+
+  getByteFrequencyData(data: Uint8Array) {
+    data.fill(0);
+  }
+
+  getFloatTimeDomainData(data: Float32Array) {
+    data.fill(0);
+  }
+
+  getFloatFrequencyData(data: Float32Array) {
+    data.fill(this.minDecibels);
+  }
+}
+
+class FakeGainNode extends FakeAudioNode {
+  gain = new FakeAudioParam();
+}
+
+class FakeStereoPannerNode extends FakeAudioNode {
+  pan = new FakeAudioParam();
+}
+
+class FakeDynamicsCompressorNode extends FakeAudioNode {
+  threshold = new FakeAudioParam();
+  knee = new FakeAudioParam();
+  ratio = new FakeAudioParam();
+  attack = new FakeAudioParam();
+  release = new FakeAudioParam();
+}
+
+class FakeBiquadFilterNode extends FakeAudioNode {
+  type = "peaking";
+  frequency = new FakeAudioParam();
+  gain = new FakeAudioParam();
+  Q = new FakeAudioParam();
+}
+
+class FakeMediaElementAudioSourceNode extends FakeAudioNode {
+  constructor(
+    context: FakeAudioContext,
+    readonly mediaElement: HTMLMediaElement
+  ) {
+    super(context);
+  }
+}
+
+class FakeAudioContext {
+  /**
+   * Every context created, in order
+   */
+  static instances: FakeAudioContext[] = [];
+
+  /**
+   * Every node created in the context, in order
+   */
+  readonly nodes: FakeAudioNode[] = [];
+
+  state: AudioContextState = "running";
+  sampleRate = 44100;
+  currentTime = 0;
+
+  readonly destination = new FakeAudioNode(this);
+
+  constructor() {
+    FakeAudioContext.instances.push(this);
+  }
+
+  resume = vi.fn(async () => {
+    if (this.state === "closed") {
+      throw new DOMException("The context is closed", "InvalidStateError");
+    }
+
+    this.state = "running";
+  });
+
+  close = vi.fn(async () => {
+    this.state = "closed";
+  });
+
+  createAnalyser = () => new FakeAnalyserNode(this);
+  createGain = () => new FakeGainNode(this);
+  createStereoPanner = () => new FakeStereoPannerNode(this);
+  createDynamicsCompressor = () => new FakeDynamicsCompressorNode(this);
+  createBiquadFilter = () => new FakeBiquadFilterNode(this);
+  createChannelSplitter = () => new FakeAudioNode(this);
+  createMediaStreamSource = () => new FakeAudioNode(this);
+  createMediaElementSource = (element: HTMLMediaElement) =>
+    new FakeMediaElementAudioSourceNode(this, element);
+}
+
+/**
+ * Installs the fake Web Audio API, and stubs the media elements and the animation frames
+ * that jsdom does not implement
+ *
+ * @returns The mocks of `requestAnimationFrame` and `cancelAnimationFrame`
+ */
+function installFakeWebAudio() {
+  FakeAudioContext.instances = [];
+
+  let frameID = 0;
+
+  const requestAnimationFrame = vi.fn(() => ++frameID);
+  const cancelAnimationFrame = vi.fn();
+
+  vi.stubGlobal("AudioContext", FakeAudioContext);
+  vi.stubGlobal("MediaStream", class MediaStream {});
+  vi.stubGlobal("MediaError", {
+    MEDIA_ERR_ABORTED: 1,
+    MEDIA_ERR_NETWORK: 2,
+    MEDIA_ERR_DECODE: 3,
+    MEDIA_ERR_SRC_NOT_SUPPORTED: 4
+  });
+  vi.stubGlobal("requestAnimationFrame", requestAnimationFrame);
+  vi.stubGlobal("cancelAnimationFrame", cancelAnimationFrame);
+
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue();
+  vi.spyOn(HTMLMediaElement.prototype, "pause").mockImplementation(() => {});
+  vi.spyOn(HTMLMediaElement.prototype, "load").mockImplementation(() => {});
+
+  return { requestAnimationFrame, cancelAnimationFrame };
+}
+
+/**
+ * Gets the nodes of a context that are still connected to another node
+ *
+ * @param context The fake audio context
+ * @returns The connected nodes
+ */
+function getConnectedNodes(context: FakeAudioContext): FakeAudioNode[] {
+  return context.nodes.filter(node => node.connections.size > 0);
+}
+
+export {
+  FakeAnalyserNode,
+  FakeAudioContext,
+  FakeMediaElementAudioSourceNode,
+  getConnectedNodes,
+  installFakeWebAudio
+};
@@ -1,4 +1,4 @@
-import type { ComponentPropsWithoutRef, RefObject } from "react";
+import type { ComponentPropsWithoutRef, ReactNode, RefObject } from "react";
 
 /**
  * The possible states of the audio source
@@ -9,284 +9,2019 @@ import type { ComponentPropsWithoutRef, RefObject } from "react";
  * paused: The audio src is paused
  * playing: The audio src is playing
  * ended: The audio src has ended
+ * blocked: The browser requires a user gesture before the audio src can play, see `resume`
+ * error: The audio src could not be loaded or played, see `onError`
  */
-type AudioState = "unset" | "loading" | "pending" | "paused" | "playing" | "ended";
+type AudioState =
+  | "unset"
+  | "loading"
+  | "pending"
+  | "paused"
+  | "playing"
+  | "ended"
+  | "blocked"
+  | "error";
+
+/**
+ * Why the audio source could not be loaded or played
+ *
+ * network: The source could not be downloaded, e.g. a missing file or a network failure
+ * decode: The source could not be decoded, e.g. a corrupted file
+ * unsupported: The format of the source is not supported by the browser,
+ * or a MediaStream has no audio track
+ * cors: The source is on another origin that does not allow it to be analysed,
+ * either because the server sends no CORS headers, or because the media element
+ * has no `crossOrigin` attribute. The analyser would only get silence
+ * worker: The canvas could not be drawn in a worker with `offscreen`,
+ * so it is drawn on the main thread instead, and the audio keeps playing
+ */
+type AudioErrorKind = "network" | "decode" | "unsupported" | "cors" | "worker";
+
+/**
+ * The error passed to `onError`
+ */
+type AudioError = {
+  /**
+   * @see AudioErrorKind
+   */
+  kind: AudioErrorKind;
+
+  /**
+   * The underlying error, e.g. the MediaError of the element
+   */
+  cause: unknown;
+};
+
+/**
+ * The CORS setting of the audio elements created for url sources,
+ * like the `crossOrigin` attribute
+ *
+ * anonymous: The source is requested without credentials
+ * use-credentials: The source is requested with the cookies of its origin
+ */
+type CrossOrigin = "anonymous" | "use-credentials";
+
+/**
+ * The scale used to split the frequency range into bands, one band per bar
+ *
+ * linear: Every band covers the same range in Hz
+ * log: Every band covers the same number of octaves
+ * mel: Every band covers the same range on the mel scale
+ * bark: Every band covers the same range on the bark scale
+ */
+type FrequencyScale = "linear" | "log" | "mel" | "bark";
+
+/**
+ * How the analyser bins inside a band are combined into the value of the bar
+ *
+ * peak: The highest value of the bins
+ * average: The average value of the bins
+ */
+type BandAggregation = "peak" | "average";
+
+/**
+ * The format of the frequency levels drawn as bars, and passed to `barHeight`
+ *
+ * byte: From 0 to 255, as read with getByteFrequencyData
+ * float-db: In decibels, as read with getFloatFrequencyData, and at least `minDecibels`
+ * normalized: From 0 to 1 between `minDecibels` and `maxDecibels`, with `gamma` applied,
+ * so it keeps the same meaning when the fftSize or the decibel range change
+ *
+ * The default `barHeight` brings every format to the byte range,
+ * so a custom one is only needed to scale the levels differently
+ */
+type FrequencyDataFormat = "byte" | "float-db" | "normalized";
+
+/**
+ * The weighting applied to the decibels of each frequency,
+ * in the "float-db" and "normalized" data formats
+ *
+ * none: The levels are drawn as measured
+ * a: A-weighting, that lowers the frequencies the ear is less sensitive to
+ */
+type FrequencyWeighting = "none" | "a";
+
+/**
+ * Whether the channels of the audio source are analysed together or separately
+ *
+ * mono: The channels are mixed down into a single spectrum
+ * stereo: The left and right channels are analysed separately
+ */
+type AudioChannels = "mono" | "stereo";
+
+/**
+ * What happens when a track of the playlist ends
+ *
+ * off: The next track is played, and the playlist stops after the last one
+ * one: The current track is played again
+ * all: The next track is played, and the playlist starts over after the last one
+ */
+type PlaylistRepeat = "off" | "one" | "all";
+
+/**
+ * Where the analyser reads the signal, relative to the effects
+ *
+ * pre: Before the effects, the signal of the source as is
+ * post: After the effects, the signal that is played
+ */
+type AnalyserPosition = "pre" | "post";
+
+/**
+ * The built-in 10-band equalizer presets, from 31 Hz to 16 kHz
+ *
+ * flat: Every band at 0 dB
+ * bass: Boosts the low frequencies
+ * treble: Boosts the high frequencies
+ * vocal: Boosts the mid frequencies, where voices are
+ * rock: Boosts the lows and the highs
+ * pop: Boosts the low mids
+ * jazz: Slightly boosts the lows and the highs
+ * classical: Boosts the lows and the highs, slightly cuts the mids
+ * electronic: Boosts the sub bass and the highs
+ */
+type EqualizerPreset =
+  | "flat"
+  | "bass"
+  | "treble"
+  | "vocal"
+  | "rock"
+  | "pop"
+  | "jazz"
+  | "classical"
+  | "electronic";
+
+/**
+ * A band of the equalizer, applied with a BiquadFilterNode
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/BiquadFilterNode
+ */
+type EqualizerBand = {
+  /**
+   * The type of the filter
+   * @default "peaking"
+   */
+  type?: BiquadFilterType;
+
+  /**
+   * The frequency of the filter, in Hz
+   */
+  frequency: number;
+
+  /**
+   * The gain of the filter, in dB, only used by the peaking and shelf filters
+   * @default 0
+   */
+  gain?: number;
+
+  /**
+   * The quality factor of the filter, the higher the narrower
+   * @default 1.41 (about one octave)
+   */
+  Q?: number;
+};
+
+/**
+ * The settings of the compressor
+ * @see https://developer.mozilla.org/en-US/docs/Web/API/DynamicsCompressorNode
+ */
+type CompressorOptions = {
+  /**
+   * The level above which the signal is compressed, in dB
+   * @default -24
+   */
+  threshold?: number;
+
+  /**
+   * The range above the threshold where the compression is progressively applied, in dB
+   * @default 30
+   */
+  knee?: number;
+
+  /**
+   * How much the signal above the threshold is reduced, in dB of input per dB of output
+   * @default 12
+   */
+  ratio?: number;
+
+  /**
+   * How long it takes to reduce the gain by 10 dB, in seconds
+   * @default 0.003
+   */
+  attack?: number;
+
+  /**
+   * How long it takes to increase the gain by 10 dB, in seconds
+   * @default 0.25
+   */
+  release?: number;
+};
+
+/**
+ * The frequency band the beats are detected in
+ *
+ * low: 20 Hz to 150 Hz, where the kicks are
+ * mid: 150 Hz to 2 kHz, where the snares and the vocals are
+ * high: 2 kHz to 20 kHz, where the hi-hats and the cymbals are
+ * full: The whole spectrum
+ */
+type BeatBand = "low" | "mid" | "high" | "full";
+
+/**
+ * A beat detected in the audio
+ */
+type BeatEvent = {
+  /**
+   * The time of the beat in the audio, in seconds
+   * For a MediaStream, the time of the audio context
+   */
+  time: number;
+
+  /**
+   * How strong the beat is, from 0 to 1
+   */
+  strength: number;
+
+  /**
+   * The band the beat was detected in
+   */
+  band: BeatBand | [number, number];
+};
+
+/**
+ * The channel a bar belongs to, "mono" when the channels are analysed together
+ */
+type AudioChannel = "mono" | "left" | "right";
+
+/**
+ * How the left and right channels are laid out on the canvas in stereo.
+ * Both channels start from the center, so low frequencies meet in the middle
+ *
+ * mirrored: The left channel on the left half, flipped horizontally, the right channel on the right half
+ * stacked: The left channel on the top half, the right channel on the bottom half, flipped vertically
+ */
+type StereoLayout = "mirrored" | "stacked";
+
+/**
+ * How the bars are laid out on the canvas
+ *
+ * bottom: Left to right, growing up from the bottom edge
+ * top: Left to right, growing down from the top edge
+ * center: Left to right, mirrored vertically around the center
+ * vertical: Top to bottom, growing right from the left edge
+ * radial: Around a circle, growing outwards from the inner radius
+ */
+type BarsLayout = "bottom" | "top" | "center" | "vertical" | "radial";
+
+/**
+ * The direction in which the bars go around the circle in the radial layout
+ */
+type BarsDirection = "clockwise" | "counterclockwise";
 
 /**
  * The possible arguments for the width of the bars
  * This could be a fixed number, or a function can be passed with the canvasWidth and
- * the buffer length, so it can be setted programmatically.
+ * the number of bands (bars), so it can be setted programmatically.
+ * In the vertical layout, the canvas height is passed instead of the canvas width,
+ * and in the radial layout, the length of the inner arc.
  */
 type CustomBarWidthArg =
   | ((canvasWidth: number, bufferLength: number) => number)
   | number;
 
 /**
- * The possible arguments for the height of the bars
- * This is a function that must return the actual number.
- * Note: this function gets called for each bar in the visualizer.
+ * The possible arguments for the height of the bars
+ * This is a function that must return the actual number.
+ * Note: this function gets called for each bar in the visualizer.
+ * The level of the bar is in the `dataFormat` of the analyser, see `FrequencyDataFormat`
+ */
+type CustomBarHeightArg = (
+  defaultHeight: number,
+  bufferLength: number,
+  index: number,
+  frequency: number,
+  beat: number
+) => number;
+
+/**
+ * Where the bars are drawn, passed to the `barColor` function
+ * so it can build gradients and patterns for the canvas
+ */
+type CustomBarColorContext = {
+  /**
+   * The 2D context of the canvas, null in the SVG renderer
+   */
+  ctx: CanvasRenderingContext2D | null;
+
+  /**
+   * The width of the canvas, in CSS pixels
+   * In stereo, the width of the region the channel is drawn in
+   */
+  canvasWidth: number;
+
+  /**
+   * The height of the canvas, in CSS pixels
+   * In stereo, the height of the region the channel is drawn in
+   */
+  canvasHeight: number;
+
+  /**
+   * @see BarsLayout
+   */
+  layout: BarsLayout;
+
+  /**
+   * The radius of the inner circle, in the radial layout
+   */
+  radius: number;
+};
+
+/**
+ * The possible arguments for the color of the bars
+ * This could be a CanvasGradient, CanvasPattern or a string.
+ * Or it could be function that must return a CanvasGradient, CanvasPattern or a string,
+ * e.g. one created with `createColormap`.
+ */
+type CustomBarColorArg =
+  | ((
+      barHeight: number,
+      bufferLength: number,
+      index: number,
+      frequency: number,
+      beat: number,
+      context: CustomBarColorContext
+    ) => string | CanvasGradient | CanvasPattern)
+  | (string | CanvasGradient | CanvasPattern);
+
+/**
+ * The possible arguments for the CSS class of the bars, in the SVG renderer
+ * This could be a string, or a function that returns the class of each bar.
+ */
+type CustomBarClassNameArg =
+  | ((index: number, bufferLength: number) => string)
+  | string;
+
+type CustomDrawFunctionArgs = {
+  /**
+   * The width of the canvas where the visualizer is drawn, in CSS pixels
+   * In stereo, the width of the region the channel is drawn in
+   */
+  canvasWidth: number;
+
+  /**
+   * The height of the canvas where the visualizer is drawn, in CSS pixels
+   * In stereo, the height of the region the channel is drawn in
+   */
+  canvasHeight: number;
+
+  /**
+   * The width of each bar of the visualizer
+   */
+  barWidth: number;
+
+  /**
+   * The height of each bar of the visualizer
+   */
+  barHeight: number;
+
+  /**
+   * The number of bands (bars) drawn
+   */
+  bufferLength: number;
+
+  /**
+   * The default x of the bar.
+   * In the radial layout, the x of the point where the bar starts on the inner circle
+   */
+  x: number;
+
+  /**
+   * The default y of the bar.
+   * In the radial layout, the y of the point where the bar starts on the inner circle
+   */
+  y: number;
+
+  /**
+   * The index of the band of the currently drawn bar
+   */
+  index: number;
+
+  /**
+   * The center frequency of the band of the currently drawn bar, in Hz
+   */
+  frequency: number;
+
+  /**
+   * The layout of the bars
+   */
+  layout: BarsLayout;
+
+  /**
+   * The angle of the bar in radians, only used in the radial layout (0 otherwise)
+   */
+  angle: number;
+
+  /**
+   * The inner radius the bar starts from, only used in the radial layout
+   */
+  radius: number;
+
+  /**
+   * The x of the center of the canvas
+   */
+  centerX: number;
+
+  /**
+   * The y of the center of the canvas
+   */
+  centerY: number;
+
+  /**
+   * The channel the currently drawn bar belongs to
+   */
+  channel: AudioChannel;
+
+  /**
+   * The position of the peak cap of the bar, measured like `barHeight` from the base of the bar.
+   * null when `peakCaps` is disabled
+   */
+  peak: number | null;
+
+  /**
+   * The height of the peak cap
+   */
+  peakHeight: number;
+
+  /**
+   * The color of the peak cap
+   */
+  peakColor: string | CanvasGradient | CanvasPattern;
+
+  /**
+   * The beat pulse, from 0 to 1, to make the bars pulse on the beats
+   * @see AudioAnalyserFrame.beat
+   */
+  beat: number;
+};
+
+/**
+ * A custom function that defines how each bar is drawn.
+ * Note: this function gets called for each bar in the visualizer.
+ * @param ctx The canvas context
+ * @param args The necessary args to customize the drawing process
+ * @see CustomDrawFunctionArgs
+ */
+type CustomDrawFunction = (
+  ctx: CanvasRenderingContext2D,
+  args: CustomDrawFunctionArgs
+) => void;
+
+/**
+ * What the visualizer draws
+ *
+ * bars: The frequency spectrum, as bars
+ * waveform: The waveform, like an oscilloscope
+ * spectrogram: The history of the frequency spectrum, scrolling over time
+ */
+type VisualizerMode = "bars" | "waveform" | "spectrogram";
+
+/**
+ * How the bars are drawn on the canvas
+ *
+ * 2d: With the Canvas 2D API, one rectangle at a time
+ * webgl: With WebGL 2, all the bars in a single instanced draw call
+ * svg: With an SVG `<rect>` per bar, that can be styled with CSS and rendered on the server
+ */
+type VisualizerRenderer = "2d" | "webgl" | "svg";
+
+/**
+ * How the waveform is drawn
+ *
+ * line: A continuous line
+ * area: The area between the waveform and the center of the canvas
+ */
+type WaveformStyle = "line" | "area";
+
+/**
+ * Where the waveform starts on each frame.
+ * Aligning it to a zero crossing keeps periodic sounds still instead of jittering
+ *
+ * none: The waveform is drawn as read from the analyser
+ * rising: The waveform starts where it crosses zero going up
+ * falling: The waveform starts where it crosses zero going down
+ */
+type WaveformTrigger = "none" | "rising" | "falling";
+
+/**
+ * The direction the spectrogram scrolls in
+ *
+ * horizontal: The newest column is drawn on the right, the low frequencies at the bottom
+ * vertical: The newest row is drawn at the top, like a waterfall,
+ * the low frequencies on the left
+ */
+type SpectrogramDirection = "horizontal" | "vertical";
+
+/**
+ * Whether the visualizer reduces its motion
+ *
+ * user: Follows the `prefers-reduced-motion` setting of the user
+ * always: Always reduces the motion
+ * never: Never reduces the motion
+ */
+type ReducedMotion = "user" | "always" | "never";
+
+/**
+ * What the visualizer draws when the motion is reduced
+ *
+ * low-frame-rate: The same visualization, drawn a few times per second
+ * level-meter: A single bar with the average level, drawn a few times per second
+ */
+type ReducedMotionFallback = "low-frame-rate" | "level-meter";
+
+/**
+ * The built-in perceptual colormaps, from dark to light
+ *
+ * viridis: Blue to green to yellow
+ * magma: Black to purple to pale yellow
+ * inferno: Black to purple to orange to pale yellow
+ */
+type ColormapName = "viridis" | "magma" | "inferno";
+
+/**
+ * A colormap: a built-in one, or a list of CSS colors.
+ * The colors are evenly spaced, unless they are given with their offset, from 0 to 1
+ */
+type Colormap = ColormapName | (string | [offset: number, color: string])[];
+
+/**
+ * What picks the color of each bar in the colormap
+ *
+ * height: The height of the bar, from the base to the end of the canvas
+ * frequency: The position of the bar, from the lowest frequency to the highest
+ * time: The time, so the colors cycle through the colormap, shifted for each bar
+ */
+type ColormapMapping = "height" | "frequency" | "time";
+
+/**
+ * Whether the bars are filled with a gradient of the colormap instead of a single color.
+ * The gradients are built once per canvas size.
+ * In the radial layout, they are centered on the origin, where the bars are drawn
+ * translated to the center of the canvas
+ *
+ * none: Each bar has a single color
+ * canvas: A gradient spanning the canvas, along the bars when mapping the height,
+ * across them when mapping the frequency, so each bar shows its part of the colormap
+ * bar: A gradient along each bar from its base to its end, so each bar shows the whole colormap.
+ * Only used when mapping the height
+ */
+type ColormapGradient = "none" | "canvas" | "bar";
+
+/**
+ * The options of `createColormap`
+ */
+type ColormapOptions = {
+  /**
+   * @see ColormapMapping
+   * @default "height"
+   */
+  mapping?: ColormapMapping;
+
+  /**
+   * @see ColormapGradient
+   * @default "none"
+   */
+  gradient?: ColormapGradient;
+
+  /**
+   * How long a cycle through the colormap lasts, in milliseconds, when mapping the time
+   *
+   * @default 4000
+   */
+  period?: number;
+};
+
+/**
+ * What is left on the canvas when the playback stops
+ *
+ * freeze: The last frame stays on the canvas
+ * rest: A frame of silence is drawn, with the bars and their peak caps at rest
+ * clear: The canvas is cleared
+ */
+type IdleFrame = "freeze" | "rest" | "clear";
+
+type CustomWaveformDrawFunctionArgs = {
+  /**
+   * The width of the canvas where the visualizer is drawn, in CSS pixels
+   */
+  canvasWidth: number;
+
+  /**
+   * The height of the canvas where the visualizer is drawn, in CSS pixels
+   */
+  canvasHeight: number;
+
+  /**
+   * The samples to draw, from -1 to 1, already aligned to the trigger
+   */
+  data: Float32Array;
+
+  /**
+   * The vertical scale of the waveform
+   */
+  scale: number;
+
+  /**
+   * The style of the waveform
+   */
+  style: WaveformStyle;
+};
+
+/**
+ * A custom function that defines how the waveform is drawn.
+ * Note: this function gets called once per frame, the stroke and fill styles
+ * and the line width are already set on the context.
+ * @param ctx The canvas context
+ * @param args The necessary args to customize the drawing process
+ * @see CustomWaveformDrawFunctionArgs
+ */
+type CustomWaveformDrawFunction = (
+  ctx: CanvasRenderingContext2D,
+  args: CustomWaveformDrawFunctionArgs
+) => void;
+
+export type {
+  AnalyserPosition,
+  AudioChannel,
+  AudioChannels,
+  AudioError,
+  AudioErrorKind,
+  AudioState,
+  BandAggregation,
+  BarsDirection,
+  BarsLayout,
+  BeatBand,
+  BeatEvent,
+  Colormap,
+  ColormapGradient,
+  ColormapMapping,
+  ColormapName,
+  ColormapOptions,
+  CompressorOptions,
+  CrossOrigin,
+  CustomBarClassNameArg,
+  CustomBarColorArg,
+  CustomBarColorContext,
+  CustomBarHeightArg,
+  CustomBarWidthArg,
+  CustomDrawFunction,
+  CustomDrawFunctionArgs,
+  CustomWaveformDrawFunction,
+  CustomWaveformDrawFunctionArgs,
+  EqualizerBand,
+  EqualizerPreset,
+  FrequencyDataFormat,
+  FrequencyScale,
+  FrequencyWeighting,
+  IdleFrame,
+  PlaylistRepeat,
+  ReducedMotion,
+  ReducedMotionFallback,
+  SpectrogramDirection,
+  StereoLayout,
+  VisualizerMode,
+  VisualizerRenderer,
+  WaveformStyle,
+  WaveformTrigger
+};
+
+type UseAudioAnalyserOptions = {
+  /**
+   * The source of the audio to visualize.
+   * This could be a url, or a live MediaStream (e.g. from `getUserMedia` or a WebRTC track).
+   *
+   * A MediaStream is only connected to the analyser, never to the speakers, to avoid feedback.
+   * Since a live stream cannot be paused or rewound, the audio state only starts and stops the
+   * visualizer, and goes to "ended" when every audio track of the stream has ended.
+   * `loop`, `playbackRate`, `volume`, `onTimeChange` and the source callbacks have no effect on it.
+   */
+  src?: string | MediaStream;
+
+  /**
+   * The `crossOrigin` attribute of the audio elements created for `src` and `playlist`.
+   * A source on another origin only gives silence to the analyser without it,
+   * so set it to analyse such a source, whose server must then send
+   * `Access-Control-Allow-Origin`, otherwise the source fails with a "cors" error
+   *
+   * @see CrossOrigin
+   * @default undefined (no attribute)
+   */
+  crossOrigin?: CrossOrigin;
+
+  /**
+   * An existing audio or video element to visualize, or a ref to it.
+   * When set, `src` is ignored and no hidden audio element is created.
+   *
+   * The audio state follows the element's own play, pause and ended events,
+   * so native controls keep working, and `autoStart` is ignored.
+   * The same element can be used by multiple visualizers and across remounts.
+   *
+   * @example
+   * ```tsx
+   * const videoRef = useRef<HTMLVideoElement>(null);
+   *
+   * <video ref={videoRef} src={src} controls />
+   * <AudioVisualizer mediaElement={videoRef} />
+   * ```
+   */
+  mediaElement?: RefObject<HTMLMediaElement | null> | HTMLMediaElement | null;
+
+  /**
+   * The id of a source of the surrounding `AudioVisualizerProvider` to visualize.
+   * When set, `src` and `mediaElement` are ignored.
+   *
+   * Like with `mediaElement`, the audio state follows the source, and every visualizer
+   * of the same source shares it, each with its own analyser settings
+   *
+   * @see AudioVisualizerProviderProps
+   * @example
+   * ```tsx
+   * <AudioVisualizerProvider sources={{ song: "/song.mp3" }}>
+   *   <AudioVisualizer sourceId="song" />
+   *   <AudioVisualizer sourceId="song" mode="waveform" />
+   * </AudioVisualizerProvider>
+   * ```
+   */
+  sourceId?: string;
+
+  /**
+   * The current state of the audio source
+   * @default "unset"
+   * @see AudioState
+   */
+  audioState?: AudioState;
+
+  /**
+   * A callback that is called when the audio source changes state
+   *
+   * @param audioState The new state of the audio source
+   * @example
+   * ```tsx
+   * const [audioState, setAudioState] = useState<AudioState>("unset");
+   *
+   * <AudioVisualizer
+   *  src={src}
+   *  audioState={audioState}
+   *  onAudioStateChange={setAudioState}
+   * />
+   * ```
+   */
+  onAudioStateChange?: (audioState: AudioState) => void;
+
+  /**
+   * The interval in milliseconds at which the time elapesed is updated
+   *
+   * @default 1000
+   * @example
+   * ```tsx
+   * <AudioVisualizer
+   *  src={src}
+   *  timeFactor={100}
+   *  onTimeChange={time => console.log(time)} // This will log every 0.1 seconds
+   * />
+   * ```
+   */
+  timeFactor?: number;
+
+  /**
+   * Callback that is called when the time elapsed changes.
+   *
+   * @param time The current time elapsed in seconds
+   */
+  onTimeChange?: (time: number) => void;
+
+  /**
+   * Whether the audio should start playing as soon as it is loaded
+   * Ignored when `mediaElement` is set
+   */
+  autoStart?: boolean;
+
+  /**
+   * Whether the audio should loop
+   * Ignored when `src` is a MediaStream.
+   * When unset, the element passed with `mediaElement` or `sourceId` keeps its own setting
+   */
+  loop?: boolean;
+
+  /**
+   * The volume of the audio source
+   * It should be a number between 0 and 1, error will be thrown otherwise
+   * Ignored when `src` is a MediaStream.
+   * When unset, the element passed with `mediaElement` or `sourceId` keeps its own volume
+   *
+   * @default 1
+   * @example
+   * ```tsx
+   * const [volume, setVolume] = useState(1);
+   *
+   * <AudioVisualizer
+   *  src={src}
+   *  volume={volume}
+   * />
+   */
+  volume?: number;
+
+  /**
+   * The size of the Fast Fourier Transform (FFT) to use.
+   * It should be a power of 2 between 32 and 32768, error will be thrown otherwise
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/fftSize
+   *
+   * @default 256
+   */
+  fftSize?: number;
+
+  /**
+   * The level mapped to the lowest value of the byte and normalized data, in decibels.
+   * It should be lower than `maxDecibels`, error will be thrown otherwise
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/minDecibels
+   *
+   * @default -100
+   */
+  minDecibels?: number;
+
+  /**
+   * The level mapped to the highest value of the byte and normalized data, in decibels
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/maxDecibels
+   *
+   * @default -30
+   */
+  maxDecibels?: number;
+
+  /**
+   * How much each frame of frequency data is averaged with the previous one.
+   * It should be a number between 0 (no averaging) and 1, error will be thrown otherwise
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/smoothingTimeConstant
+   *
+   * @default 0.8
+   */
+  smoothingTimeConstant?: number;
+
+  /**
+   * The format of the frequency levels drawn as bars, and passed to `barHeight`
+   *
+   * @see FrequencyDataFormat
+   * @default "byte"
+   * @example
+   * ```tsx
+   * <AudioVisualizer
+   *  src={src}
+   *  dataFormat="normalized"
+   *  barHeight={level => level * 150}
+   * />
+   * ```
+   */
+  dataFormat?: FrequencyDataFormat;
+
+  /**
+   * The exponent applied to the normalized levels.
+   * Above 1 the quiet levels are lowered, below 1 they are raised.
+   * Only used with the "normalized" data format
+   *
+   * @default 1
+   */
+  gamma?: number;
+
+  /**
+   * The weighting applied to the decibels of each frequency.
+   * Only used with the "float-db" and "normalized" data formats
+   *
+   * @see FrequencyWeighting
+   * @default "none"
+   */
+  frequencyWeighting?: FrequencyWeighting;
+
+  /**
+   * Whether the channels of the audio source are analysed together or separately.
+   * In stereo, a ChannelSplitterNode feeds one analyser per channel,
+   * and the data of each channel is available in `AudioAnalyserFrame.channels`
+   *
+   * @see AudioChannels
+   * @default "mono"
+   */
+  channels?: AudioChannels;
+
+  /**
+   * The speed at which the audio should play
+   * Ignored when `src` is a MediaStream.
+   * When unset, the element passed with `mediaElement` or `sourceId` keeps its own speed
+   *
+   * @default 1
+   */
+  playbackRate?: number;
+
+  /**
+   * The urls of the tracks to play one after the other.
+   * When set, `src` and `loop` are ignored, and every track feeds the same analyser,
+   * so the visualizer keeps running between tracks.
+   * The next track is always preloaded, so it starts without a gap
+   *
+   * @example
+   * ```tsx
+   * <AudioVisualizer playlist={[first, second, third]} crossfade={3} repeat="all" />
+   * ```
+   */
+  playlist?: string[];
+
+  /**
+   * How long the current track fades into the next one, in seconds,
+   * only used when `playlist` is set
+   *
+   * @default 0 (the next track starts when the current one ends)
+   */
+  crossfade?: number;
+
+  /**
+   * Whether the tracks of the playlist are played in a random order,
+   * only used when `playlist` is set
+   *
+   * @default false
+   */
+  shuffle?: boolean;
+
+  /**
+   * What happens when a track of the playlist ends, only used when `playlist` is set
+   *
+   * @see PlaylistRepeat
+   * @default "off"
+   */
+  repeat?: PlaylistRepeat;
+
+  /**
+   * Callback that is called when a track of the playlist becomes the current one
+   *
+   * @param index The index of the track in `playlist`
+   * @param src The url of the track
+   */
+  onTrackChange?: (index: number, src: string) => void;
+
+  /**
+   * The bands of the equalizer, or the name of a 10-band preset.
+   * Changing the bands updates the filters live, without reloading the source
+   *
+   * The effects are only heard when the visualizer plays the audio itself (`src` or `playlist`):
+   * a MediaStream is never played, and a `mediaElement` is played as is,
+   * so for them the effects only change what the analyser reads when `analyserPosition` is "post"
+   *
+   * @see EqualizerBand
+   * @see EqualizerPreset
+   * @default [] (no equalizer)
+   * @example
+   * ```tsx
+   * <AudioVisualizer src={src} equalizer="rock" />
+   * <AudioVisualizer src={src} equalizer={[{ type: "lowshelf", frequency: 200, gain: 6 }]} />
+   * ```
+   */
+  equalizer?: EqualizerBand[] | EqualizerPreset;
+
+  /**
+   * The gain applied after the equalizer, 1 leaves the signal unchanged
+   *
+   * @default 1
+   */
+  gain?: number;
+
+  /**
+   * The stereo position of the audio, from -1 (left) to 1 (right)
+   *
+   * @default 0
+   */
+  pan?: number;
+
+  /**
+   * Whether to compress the audio after the other effects, with the default settings
+   * when `true`, or with the given ones
+   *
+   * @see CompressorOptions
+   * @default false
+   */
+  compressor?: boolean | CompressorOptions;
+
+  /**
+   * Whether the analyser reads the signal before or after the effects.
+   * After the effects, the visualizer shows the sound as it is played
+   *
+   * @see AnalyserPosition
+   * @default "post"
+   */
+  analyserPosition?: AnalyserPosition;
+
+  /**
+   * Callback that is called when a beat is detected.
+   * The beats are detected on the analyser data of each frame, with the spectral flux
+   * of `beatBand` and a threshold that adapts to the loudness of the music
+   *
+   * @param beat The time, strength and band of the beat
+   * @see BeatEvent
+   * @example
+   * ```tsx
+   * <AudioVisualizer src={src} onBeat={({ strength }) => shake(strength)} />
+   * ```
+   */
+  onBeat?: (beat: BeatEvent) => void;
+
+  /**
+   * Callback that is called when the estimated tempo changes,
+   * from the beats of the last 8 seconds
+   *
+   * @param bpm The tempo, in beats per minute
+   */
+  onTempoChange?: (bpm: number) => void;
+
+  /**
+   * The frequency band the beats are detected in, a named band or a range in Hz
+   *
+   * @see BeatBand
+   * @default "low"
+   */
+  beatBand?: BeatBand | [number, number];
+
+  /**
+   * How far above the average of the last second the spectral flux must go to be a beat.
+   * Lower values detect more beats
+   *
+   * @default 1.5
+   */
+  beatThreshold?: number;
+
+  /**
+   * What is drawn when the playback stops, instead of leaving the last frame
+   * on the canvas. The listeners get a last frame of silence with its `idle` field set
+   *
+   * @see IdleFrame
+   * @default "freeze"
+   */
+  idleFrame?: IdleFrame;
+
+  /**
+   * Callback that is called when the audio source is loaded
+   *
+   * @param audio The audio or media element
+   */
+  onSourceLoaded?: (audio: HTMLMediaElement) => void;
+
+  /**
+   * Callback that is called when the audio source is paused
+   *
+   * @param audio The audio or media element
+   */
+
+  onSourceEnded?: (audio: HTMLMediaElement) => void;
+
+  /**
+   * Callback that is called when the audio source is paused
+   *
+   * @param audio The audio or media element
+   */
+  onSourcePaused?: (audio: HTMLMediaElement) => void;
+
+  /**
+   * Callback that is called when the audio source is playing
+   *
+   * @param audio The audio or media element
+   */
+  onSourcePlaying?: (audio: HTMLMediaElement) => void;
+
+  /**
+   * Callback that is called when the audio source cannot be loaded or played,
+   * after the state has moved to "error"
+   *
+   * @param error Why the source failed
+   * @see AudioError
+   * @example
+   * ```tsx
+   * <AudioVisualizer
+   *   src={src}
+   *   onError={({ kind }) => setMessage(kind === "cors" ? "Unsupported host" : "Cannot play")}
+   * />
+   * ```
+   */
+  onError?: (error: AudioError) => void;
+};
+
+/**
+ * The data read from the analyser node of a single channel
  */
-type CustomBarHeightArg = (
-  defaultHeight: number,
-  bufferLength: number,
-  index: number
-) => number;
+type AudioAnalyserChannelData = {
+  /**
+   * The frequency data of the channel, from 0 to 255 for each frequency bin
+   */
+  frequencyData: Uint8Array;
+
+  /**
+   * The waveform data of the channel, from -1 to 1 for each sample
+   */
+  timeDomainData: Float32Array;
+
+  /**
+   * The level of each frequency bin of the channel, in the `dataFormat` of the analyser
+   */
+  levels: Float32Array;
+};
 
 /**
- * The possible arguments for the color of the bars
- * This could be a CanvasGradient, CanvasPattern or a string.
- * Or it could be function that must return a CanvasGradient, CanvasPattern or a string.
+ * The data read from the analyser node on each animation frame.
+ * The arrays are reused between frames, so they should be copied if they need to be kept.
  */
-type CustomBarColorArg =
-  | ((
-      barHeight: number,
-      bufferLength: number,
-      index: number
-    ) => string | CanvasGradient | CanvasPattern)
-  | (string | CanvasGradient | CanvasPattern);
+type AudioAnalyserFrame = {
+  /**
+   * The frequency data of the current frame, from 0 to 255 for each frequency bin
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/getByteFrequencyData
+   */
+  frequencyData: Uint8Array;
 
-type CustomDrawFunctionArgs = {
   /**
-   * The width of the canvas where the visualizer is drawn
+   * The waveform data of the current frame, from -1 to 1 for each sample (0 is silence)
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/getFloatTimeDomainData
    */
-  canvasWidth: number;
+  timeDomainData: Float32Array;
 
   /**
-   * The height of the canvas where the visualizer is drawn
+   * The level of each frequency bin, in the `dataFormat` of the analyser.
+   * The bars are drawn from these levels
+   * @see FrequencyDataFormat
    */
-  canvasHeight: number;
+  levels: Float32Array;
 
   /**
-   * The width of each bar of the visualizer
+   * The sample rate of the audio context, in Hz.
+   * Bin `i` of the frequency data is centered around `i * sampleRate / fftSize`
    */
-  barWidth: number;
+  sampleRate: number;
 
   /**
-   * The height of each bar of the visualizer
+   * The time of the frame, in milliseconds
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/DOMHighResTimeStamp
    */
-  barHeight: number;
+  timestamp: number;
 
   /**
-   * The length of the buffer
+   * The beat pulse, from 0 to 1: it jumps to the strength of each detected beat,
+   * then decays back to 0
    */
-  bufferLength: number;
+  beat: number;
 
   /**
-   * The default x of the canvas
+   * The data of each channel: the left and right channels in stereo,
+   * or a single entry holding the same data as the frame in mono
    */
-  x: number;
+  channels: AudioAnalyserChannelData[];
 
   /**
-   * The index of the currently drawn bar
+   * Set on the last frame sent when the playback stops, see `idleFrame`.
+   * Its data is silent, and it should be drawn right away, without easing:
+   * at rest, or not at all when "clear"
    */
-  index: number;
+  idle?: Exclude<IdleFrame, "freeze">;
 };
 
 /**
- * A custom function that defines how each bar is drawn.
- * Note: this function gets called for each bar in the visualizer.
- * @param ctx The canvas context
- * @param args The necessary args to customize the drawing process
- * @see CustomDrawFunctionArgs
+ * A function that is called on each animation frame while the audio is playing
+ * @param frame The data read from the analyser
+ * @see AudioAnalyserFrame
  */
-type CustomDrawFunction = (
-  ctx: CanvasRenderingContext2D,
-  args: CustomDrawFunctionArgs
-) => void;
+type AudioAnalyserListener = (frame: AudioAnalyserFrame) => void;
 
-export type {
-  AudioState,
-  CustomBarColorArg,
-  CustomBarHeightArg,
-  CustomBarWidthArg,
-  CustomDrawFunction,
-  CustomDrawFunctionArgs
-};
+/**
+ * The value returned by `useAudioAnalyser`
+ */
+type AudioAnalyser = {
+  /**
+   * The current state of the audio source
+   * @see AudioState
+   */
+  audioState: AudioState;
 
-type AudioVisualizerProps = ComponentPropsWithoutRef<"canvas"> & {
   /**
-   * The source of the audio to visualize
+   * Starts or resumes the audio source
    */
-  src: string;
+  play: () => void;
 
   /**
-   * The current state of the audio source
-   * @default "unset"
-   * @see AudioState
+   * Resumes the audio context and plays the audio source,
+   * to call from a user gesture (e.g. a click) when the state is "blocked"
    */
-  audioState?: AudioState;
+  resume: () => void;
 
   /**
-   * A callback that is called when the audio source changes state
-   *
-   * @param audioState The new state of the audio source
-   * @example
-   * ```tsx
-   * const [audioState, setAudioState] = useState<AudioState>("unset");
+   * Pauses the audio source
+   */
+  pause: () => void;
+
+  /**
+   * Stops the audio source and moves it back to the start
+   */
+  stop: () => void;
+
+  /**
+   * Moves the audio source to the given time.
+   * Does nothing when the source is a MediaStream
    *
-   * <AudioVisualizer
-   *  src={src}
-   *  audioState={audioState}
-   *  onAudioStateChange={setAudioState}
-   * />
-   * ```
+   * @param seconds The time to move to, in seconds
    */
-  onAudioStateChange?: (audioState: AudioState) => void;
+  seek: (seconds: number) => void;
 
   /**
-   * The interval in milliseconds at which the time elapesed is updated
+   * The index of the current track in `playlist`, 0 when there is no playlist
+   */
+  trackIndex: number;
+
+  /**
+   * Moves to the next track of the playlist.
+   * Does nothing when there is no playlist
+   */
+  next: () => void;
+
+  /**
+   * Moves to the previous track of the playlist,
+   * or back to the start of the track when it is the first one.
+   * Does nothing when there is no playlist
+   */
+  previous: () => void;
+
+  /**
+   * Subscribes to the analyser data, read once per animation frame while the audio is playing
    *
-   * @default 1000
+   * @param listener The function to call on each frame
+   * @returns A function that removes the subscription
    * @example
    * ```tsx
-   * <AudioVisualizer
-   *  src={src}
-   *  timeFactor={100}
-   *  onTimeChange={time => console.log(time)} // This will log every 0.1 seconds
-   * />
+   * const { subscribe } = useAudioAnalyser({ src });
+   *
+   * useEffect(() => subscribe(({ frequencyData }) => draw(frequencyData)), [subscribe]);
    * ```
    */
-  timeFactor?: number;
+  subscribe: (listener: AudioAnalyserListener) => () => void;
 
   /**
-   * Callback that is called when the time elapsed changes.
-   *
-   * @param time The current time elapsed in seconds
+   * Gets the analyser node, null if no source has been loaded yet
    */
-  onTimeChange?: (time: number) => void;
+  getAnalyser: () => AnalyserNode | null;
 
   /**
-   * Whether the audio should start playing as soon as it is loaded
+   * Gets the media element that is playing, null if there is none
+   * (e.g. if the source is a MediaStream)
    */
-  autoStart?: boolean;
+  getAudioElement: () => HTMLMediaElement | null;
+};
+
+export type {
+  AudioAnalyser,
+  AudioAnalyserChannelData,
+  AudioAnalyserFrame,
+  AudioAnalyserListener,
+  UseAudioAnalyserOptions
+};
 
+/**
+ * The handle exposed by the ref of `AudioVisualizer`
+ *
+ * @example
+ * ```tsx
+ * const ref = useRef<AudioVisualizerHandle>(null);
+ *
+ * <AudioVisualizer ref={ref} src={src} />
+ * <button onClick={() => ref.current?.seek(30)}>skip to 0:30</button>
+ * ```
+ */
+type AudioVisualizerHandle = {
   /**
-   * Whether the audio should loop
+   * Starts or resumes the audio source
    */
-  loop?: boolean;
+  play: () => void;
 
   /**
-   * The volume of the audio source
-   * It should be a number between 0 and 1, error will be thrown otherwise
-   *
-   * @default 1
-   * @example
-   * ```tsx
-   * const [volume, setVolume] = useState(1);
+   * Resumes the audio context and plays the audio source,
+   * to call from a user gesture (e.g. a click) when the state is "blocked"
+   */
+  resume: () => void;
+
+  /**
+   * Pauses the audio source
+   */
+  pause: () => void;
+
+  /**
+   * Stops the audio source and moves it back to the start
+   */
+  stop: () => void;
+
+  /**
+   * Moves the audio source to the given time.
+   * Does nothing when the source is a MediaStream
    *
-   * <AudioVisualizer
-   *  src={src}
-   *  volume={volume}
-   * />
+   * @param seconds The time to move to, in seconds
    */
-  volume?: number;
+  seek: (seconds: number) => void;
 
   /**
-   * The number of frames to skip before updating the visualizer
-   * This is used to save performance.
-   * The higher the number, the less frequent the visualizer updates
+   * Moves to the next track of the playlist.
+   * Does nothing when there is no playlist
    */
-  stagger?: number;
+  next: () => void;
 
   /**
-   * The size of the Fast Fourier Transform (FFT) to use.
-   * It should be a power of 2 between 32 and 32768
-   * @see https://developer.mozilla.org/en-US/docs/Web/API/AnalyserNode/fftSize
+   * Moves to the previous track of the playlist,
+   * or back to the start of the track when it is the first one.
+   * Does nothing when there is no playlist
+   */
+  previous: () => void;
+
+  /**
+   * Gets the media element that is playing, null if there is none
+   * (e.g. if the source is a MediaStream)
+   */
+  getAudioElement: () => HTMLMediaElement | null;
+
+  /**
+   * Gets the analyser node, null if no source has been loaded yet
+   */
+  getAnalyser: () => AnalyserNode | null;
+
+  /**
+   * Reads the current frequency data from the analyser
    *
-   * @default 2048
+   * @returns A new array with a value from 0 to 255 for each frequency bin,
+   * empty if no source has been loaded yet
    */
-  fftSize?: number;
+  getFrequencyData: () => Uint8Array;
 
   /**
-   * The speed at which the audio should play
+   * Takes a snapshot of the canvas
+   * @see https://developer.mozilla.org/en-US/docs/Web/API/HTMLCanvasElement/toDataURL
    *
-   * @default 1
+   * @param type The image format, "image/png" by default
+   * @param quality The image quality, from 0 to 1, for lossy formats
+   * @returns A data url with the image, empty when the canvas is drawn in a worker
    */
-  playbackRate?: number;
+  toDataURL: (type?: string, quality?: number) => string;
+};
+
+/**
+ * The `onError` and `onVolumeChange` events of the canvas are replaced
+ * by the ones of the audio source
+ */
+type AudioVisualizerProps = Omit<
+  ComponentPropsWithoutRef<"canvas">,
+  "onError" | "onVolumeChange"
+> &
+  UseAudioAnalyserOptions & {
+    /**
+     * What the visualizer draws, the frequency spectrum as bars,
+     * the waveform like an oscilloscope, or the spectrogram
+     *
+     * @see VisualizerMode
+     * @default "bars"
+     */
+    mode?: VisualizerMode;
+
+    /**
+     * The number of frames to skip before updating the visualizer
+     * This is used to save performance.
+     * The higher the number, the less frequent the visualizer updates
+     */
+    stagger?: number;
+
+    /**
+     * The width of the bars. This could be a fixed number, or a function can be passed with the canvasWidth and
+     * the number of bands (bars), so it can be setted programmatically.
+     *
+     * @see CustomBarWidthArg
+     * @default (canvasWidth, freqLength) => canvasWidth / freqLength
+     */
+    barWidth?: CustomBarWidthArg;
+
+    /**
+     * The height of each bar. This is a function that must return the actual number.
+     * Note: this function gets called for each bar in the visualizer.
+     *
+     * @param defaultHeight The default height of the bar.
+     * @param bufferLength The number of bands (bars)
+     * @param index The index of the band of the currently drawn bar
+     * @param frequency The center frequency of the band, in Hz
+     * @param beat The beat pulse, from 0 to 1
+     * @returns The new bar height
+     * @default half of the level brought to the byte range, so from 0 to 127.5
+     * whatever the `dataFormat`
+     */
+    barHeight?: CustomBarHeightArg;
+
+    /**
+     * The color of each bar.
+     * This could be a CanvasGradient, CanvasPattern or a string.
+     * Or it could be function that must return a CanvasGradient, CanvasPattern or a string.
+     * Note: this function gets called for each bar in the visualizer.
+     * @param barHeight The height of the bar.
+     * @param bufferLength The number of bands (bars)
+     * @param index The index of the band of the currently drawn bar.
+     * @param frequency The center frequency of the band, in Hz
+     * @param beat The beat pulse, from 0 to 1
+     * @param context Where the bars are drawn, to build gradients for the canvas
+     * @returns The new bar color
+     */
+    barColor?: CustomBarColorArg;
+
+    /**
+     * The padding between each bar
+     */
+    spaceBetweenBars?: number;
+
+    /**
+     * The number of bars to draw.
+     * The frequency range is split into this many bands, and the analyser bins
+     * of each band are combined into a single bar.
+     *
+     * @default fftSize / 2 (one bar per analyser bin)
+     */
+    barCount?: number;
+
+    /**
+     * The scale used to split the frequency range into bands.
+     * "log", "mel" and "bark" give more bars to the low frequencies,
+     * closer to how the human ear perceives them.
+     * In the spectrogram, each row (or column) of pixels is a band.
+     *
+     * @see FrequencyScale
+     * @default "linear"
+     */
+    frequencyScale?: FrequencyScale;
+
+    /**
+     * The lowest frequency shown, in Hz
+     * It should be a positive number lower than `maxFrequency`, error will be thrown otherwise.
+     * 0 is replaced by 20 when `frequencyScale` is "log", since log(0) is not defined
+     *
+     * @default 0, or 20 when `frequencyScale` is "log"
+     */
+    minFrequency?: number;
+
+    /**
+     * The highest frequency shown, in Hz
+     * It should be a positive number, error will be thrown otherwise
+     *
+     * @default The Nyquist frequency (half the sample rate of the audio context)
+     */
+    maxFrequency?: number;
+
+    /**
+     * How the analyser bins inside a band are combined into the value of the bar
+     *
+     * @see BandAggregation
+     * @default "peak"
+     */
+    bandAggregation?: BandAggregation;
+
+    /**
+     * This is a custom function that defines how each bar is drawn.
+     * Note: this function gets called for each bar in the visualizer.
+     *
+     *
+     * @param ctx The canvas context
+     * @param args The necessary args to customize the drawing process
+     * @see CustomDrawFunctionArgs
+     *
+     * @default (ctx, { x, y, barWidth, barHeight }) => ctx.fillRect(x, y, barWidth, barHeight); rotated along the layout
+     */
+    customDrawFunction?: CustomDrawFunction;
+
+    /**
+     * How the bars are laid out on the canvas
+     *
+     * @see BarsLayout
+     * @default "bottom"
+     */
+    layout?: BarsLayout;
+
+    /**
+     * How the left and right channels are laid out on the canvas,
+     * only used when `channels` is "stereo" and `mode` is "bars"
+     *
+     * @see StereoLayout
+     * @default "mirrored"
+     */
+    stereoLayout?: StereoLayout;
+
+    /**
+     * How fast the bars rise towards a higher value, in milliseconds.
+     * After this time, a bar has covered about 63% of the distance to the new value.
+     * Measured in time, so the bars move at the same speed at any frame rate
+     *
+     * @default 0 (the bars jump straight to the new value)
+     */
+    attack?: number;
+
+    /**
+     * How fast the bars fall towards a lower value, in milliseconds.
+     * After this time, a bar has covered about 63% of the distance to the new value.
+     *
+     * @default 0 (the bars jump straight to the new value)
+     */
+    release?: number;
+
+    /**
+     * Whether to draw a peak cap above each bar, that holds the highest position
+     * reached by the bar for `peakHoldTime`, then falls at `peakFallSpeed`.
+     * The cap position is passed to `customDrawFunction` as `peak`
+     *
+     * @default false
+     */
+    peakCaps?: boolean;
+
+    /**
+     * How long the peak caps stay at their highest position, in milliseconds
+     *
+     * @default 500
+     */
+    peakHoldTime?: number;
+
+    /**
+     * How fast the peak caps fall, in pixels per second
+     *
+     * @default 100
+     */
+    peakFallSpeed?: number;
+
+    /**
+     * The height of the peak caps
+     *
+     * @default 2
+     */
+    peakHeight?: number;
+
+    /**
+     * The color of the peak caps
+     *
+     * @default The color of the bar
+     */
+    peakColor?: string | CanvasGradient | CanvasPattern;
+
+    /**
+     * The radius of the circle the bars start from, only used in the radial layout
+     *
+     * @default A quarter of the smallest side of the canvas
+     */
+    innerRadius?: number;
+
+    /**
+     * The angle of the first bar in radians, only used in the radial layout
+     * 0 is the right of the circle, -Math.PI / 2 the top
+     *
+     * @default -Math.PI / 2
+     */
+    startAngle?: number;
+
+    /**
+     * The angle covered by the bars in radians, only used in the radial layout
+     *
+     * @default 2 * Math.PI
+     */
+    sweep?: number;
+
+    /**
+     * The direction in which the bars go around the circle, only used in the radial layout
+     *
+     * @see BarsDirection
+     * @default "clockwise"
+     */
+    direction?: BarsDirection;
+
+    /**
+     * A ref to the canvas element
+     */
+    canvasRef?: RefObject<HTMLCanvasElement | null>;
+
+    /**
+     * Whether the canvas follows its CSS size.
+     * The canvas is watched with a ResizeObserver, and its `width` and `height` are set
+     * to its CSS size multiplied by `pixelRatio`, so it stays sharp on HiDPI screens.
+     * The sizes passed to `barWidth`, `customDrawFunction` and `customWaveformDrawFunction`
+     * are always in CSS pixels.
+     * The canvas should be given a CSS size, otherwise it keeps its first size
+     *
+     * @default false
+     * @example
+     * ```tsx
+     * <AudioVisualizer src={src} responsive style={{ width: "100%", height: 200 }} />
+     * ```
+     */
+    responsive?: boolean;
+
+    /**
+     * The number of canvas pixels per CSS pixel, only used when `responsive` is true
+     *
+     * @default window.devicePixelRatio, followed when the page is zoomed or moved to another screen
+     */
+    pixelRatio?: number;
+
+    /**
+     * Whether to draw the canvas in a Web Worker, with an OffscreenCanvas,
+     * so drawing many visualizers does not slow down the main thread.
+     * The analyser data is still read on the main thread, and sent to the worker on each frame.
+     *
+     * Functions and gradients cannot be sent to a worker, so the canvas is drawn on the
+     * main thread when OffscreenCanvas is not supported, or when a custom `barWidth`,
+     * `barHeight`, `barColor`, draw function or a non-string color is set.
+     * When the worker cannot be loaded or throws, the error is passed to `onError`
+     * with the "worker" kind, and the canvas is drawn on the main thread from then on
+     *
+     * @default false
+     */
+    offscreen?: boolean;
+
+    /**
+     * How the bars are drawn, only used when `mode` is "bars".
+     * The WebGL renderer draws the same layout as the 2D one, and keeps up with
+     * thousands of bars, which makes it a better fit for large `fftSize` values.
+     *
+     * The bars are drawn with the Canvas 2D API when WebGL 2 is not supported,
+     * or when a custom draw function or a color that is not a string is set.
+     * `offscreen` is ignored by the WebGL renderer
+     *
+     * The SVG renderer renders an `<svg>` in place of the canvas, with a `<rect>` per bar
+     * that is updated on each frame without rendering the component again.
+     * It suits small bar counts, e.g. a "now playing" indicator, and
+     * can be styled with CSS, see `barClassName`. The `width` and `height` props
+     * set its viewBox, and the custom draw function and gradient colors are not used.
+     * Set `barCount` to render the bars on the server, as a placeholder
+     * that the renderer takes over once the audio plays
+     *
+     * @see VisualizerRenderer
+     * @default "2d"
+     */
+    renderer?: VisualizerRenderer;
+
+    /**
+     * The GLSL ES 3.0 source of the fragment shader that colors the bars,
+     * only used by the WebGL renderer. It replaces `barColor` and `peakColor`,
+     * and can read these inputs:
+     *
+     * - `in vec2 v_uv`: The position in the bar, from 0 to 1, `y` going from its base to its top
+     * - `in float v_index`: The index of the bar
+     * - `in float v_height`: The height of the bar, in CSS pixels
+     * - `uniform float u_count`: The number of bars
+     * - `uniform bool u_peak`: Whether a peak cap is drawn
+     * - `uniform float u_time`: The time of the frame, in seconds
+     * - `uniform float u_beat`: The beat pulse, from 0 to 1
+     * - `uniform vec2 u_resolution`: The size of the canvas, in canvas pixels
+     *
+     * @example
+     * ```tsx
+     * const glow = `#version 300 es
+     * precision highp float;
+     * in vec2 v_uv;
+     * uniform float u_beat;
+     * out vec4 fragColor;
+     *
+     * void main() {
+     *   fragColor = vec4(mix(vec3(0.1, 0.4, 1.0), vec3(1.0), v_uv.y * u_beat), 1.0);
+     * }`;
+     *
+     * <AudioVisualizer src={src} renderer="webgl" fragmentShader={glow} />
+     * ```
+     */
+    fragmentShader?: string;
+
+    /**
+     * The CSS class of each `<rect>`, only used by the SVG renderer.
+     * Each bar also has a `data-index` attribute, the peak caps a `data-peak` attribute,
+     * and the `--index` and `--value` custom properties are set on the bars,
+     * `--value` being the level of the bar brought from 0 to 1, whatever the `dataFormat`.
+     * The fill set with CSS takes precedence over `barColor`
+     *
+     * @param index The index of the bar
+     * @param bufferLength The number of bands (bars)
+     * @returns The CSS class of the bar
+     * @example
+     * ```tsx
+     * <AudioVisualizer src={src} renderer="svg" barCount={5} barClassName="bar" />
+     * ```
+     * ```css
+     * .bar {
+     *   fill: currentColor;
+     *   opacity: calc(0.4 + var(--value) * 0.6);
+     * }
+     * ```
+     */
+    barClassName?: CustomBarClassNameArg;
+
+    /**
+     * How the waveform is drawn, only used when `mode` is "waveform"
+     *
+     * @see WaveformStyle
+     * @default "line"
+     */
+    waveformStyle?: WaveformStyle;
+
+    /**
+     * The color of the waveform, only used when `mode` is "waveform"
+     *
+     * @default "white"
+     */
+    waveformColor?: string | CanvasGradient | CanvasPattern;
+
+    /**
+     * The width of the waveform line, only used when `mode` is "waveform"
+     *
+     * @default 2
+     */
+    lineWidth?: number;
+
+    /**
+     * The vertical scale of the waveform, only used when `mode` is "waveform"
+     * At 1, a full scale signal reaches the top and bottom of the canvas
+     *
+     * @default 1
+     */
+    waveformScale?: number;
+
+    /**
+     * Where the waveform starts on each frame, only used when `mode` is "waveform"
+     * When set, only half of the samples are drawn, so a zero crossing can always be found
+     *
+     * @see WaveformTrigger
+     * @default "none"
+     */
+    waveformTrigger?: WaveformTrigger;
+
+    /**
+     * This is a custom function that defines how the waveform is drawn,
+     * only used when `mode` is "waveform"
+     * Note: this function gets called once per frame.
+     *
+     * @param ctx The canvas context
+     * @param args The necessary args to customize the drawing process
+     * @see CustomWaveformDrawFunctionArgs
+     */
+    customWaveformDrawFunction?: CustomWaveformDrawFunction;
+
+    /**
+     * The direction the spectrogram scrolls in, only used when `mode` is "spectrogram"
+     *
+     * @see SpectrogramDirection
+     * @default "horizontal"
+     */
+    spectrogramDirection?: SpectrogramDirection;
+
+    /**
+     * The number of CSS pixels the spectrogram scrolls by on each drawn frame,
+     * only used when `mode` is "spectrogram"
+     * Combine it with `stagger` to scroll slower than a pixel per frame
+     *
+     * @default 1
+     */
+    scrollSpeed?: number;
+
+    /**
+     * The colormap of the spectrogram, from the quietest to the loudest level,
+     * only used when `mode` is "spectrogram"
+     *
+     * @see Colormap
+     * @default "viridis"
+     */
+    colormap?: Colormap;
+
+    /**
+     * Whether the frequency and time axes are drawn over the spectrogram,
+     * only used when `mode` is "spectrogram"
+     *
+     * @default false
+     */
+    spectrogramAxes?: boolean;
+
+    /**
+     * The color of the labels of the spectrogram axes
+     *
+     * @default "white"
+     */
+    axisColor?: string;
+
+    /**
+     * The accessible name of the visualizer
+     * When set, the canvas gets the "img" role, and the playback state is announced
+     * by a visually hidden live region next to it
+     *
+     * @example
+     * ```tsx
+     * <AudioVisualizer src={src} ariaLabel="Spectrum of the current song" />
+     * ```
+     */
+    ariaLabel?: string;
+
+    /**
+     * The text announced for each playback state, when `ariaLabel` is set
+     *
+     * @default { playing: "Playing", paused: "Paused", ... }
+     * @see AudioState
+     */
+    ariaStateLabels?: Partial<Record<AudioState, string>>;
+
+    /**
+     * Whether the visualizer reduces its motion
+     *
+     * @see ReducedMotion
+     * @default "user"
+     */
+    reducedMotion?: ReducedMotion;
+
+    /**
+     * What the visualizer draws when the motion is reduced
+     *
+     * @see ReducedMotionFallback
+     * @default "low-frame-rate"
+     */
+    reducedMotionFallback?: ReducedMotionFallback;
+
+    /**
+     * Whether the visualizer can be focused and controlled with the keyboard:
+     * space plays and pauses, the left and right arrows seek,
+     * and + and - change the volume
+     * The state changes go through `onAudioStateChange`, like the `play` and `pause` controls
+     *
+     * @default false
+     */
+    keyboardControls?: boolean;
+
+    /**
+     * The number of seconds the arrow keys seek by, when `keyboardControls` is set
+     *
+     * @default 5
+     */
+    seekStep?: number;
+
+    /**
+     * The amount the + and - keys change the volume by, when `keyboardControls` is set
+     *
+     * @default 0.1
+     */
+    volumeStep?: number;
+
+    /**
+     * A callback that is called when the volume is changed with the keyboard
+     * When `volume` is set, it should be updated from this callback,
+     * the visualizer keeps its own volume otherwise.
+     * When `volume` is set without it, the + and - keys are ignored,
+     * and left out of `aria-keyshortcuts`
+     *
+     * @param volume The new volume, between 0 and 1
+     * @example
+     * ```tsx
+     * const [volume, setVolume] = useState(1);
+     *
+     * <AudioVisualizer
+     *  src={src}
+     *  keyboardControls
+     *  volume={volume}
+     *  onVolumeChange={setVolume}
+     * />
+     * ```
+     */
+    onVolumeChange?: (volume: number) => void;
+  };
+
+export type { AudioVisualizerHandle, AudioVisualizerProps };
+
+/**
+ * The peaks of the waveform of a whole audio file, one value per column
+ */
+type WaveformPeaks = {
+  /**
+   * The highest absolute sample of each column, from 0 to 1
+   */
+  peak: ArrayLike<number>;
 
   /**
-   * The width of the bars. This could be a fixed number, or a function can be passed with the canvasWidth and
-   * the buffer length, so it can be setted programmatically.
+   * The root mean square of the samples of each column, from 0 to 1
+   * Optional, when missing only the peaks are drawn
+   */
+  rms?: ArrayLike<number>;
+
+  /**
+   * The duration of the audio file, in seconds
+   */
+  duration: number;
+};
+
+type WaveformOverviewProps = ComponentPropsWithoutRef<"canvas"> & {
+  /**
+   * The url of the audio file to draw. It is fetched and decoded in full,
+   * so the server must allow cross-origin requests if it is on another origin
+   * Ignored when `peaks` is set
+   */
+  src?: string;
+
+  /**
+   * Precomputed peaks to draw instead of decoding `src`
    *
-   * @see CustomBarWidthArg
-   * @default (canvasWidth, freqLength) => canvasWidth / freqLength
+   * @see WaveformPeaks
+   * @see computeWaveformPeaks
    */
-  barWidth?: CustomBarWidthArg;
+  peaks?: WaveformPeaks;
 
   /**
-   * The height of each bar. This is a function that must return the actual number.
-   * Note: this function gets called for each bar in the visualizer.
+   * The number of columns computed when decoding `src`, a positive integer.
+   * An invalid resolution throws an error when rendering
    *
-   * @param defaultHeight The default height of the bar.
-   * @param bufferLength The length of the audio buffer
-   * @param index The index of the currently drawn bar
-   * @returns The new bar height
+   * @default The width of the canvas
    */
-  barHeight?: CustomBarHeightArg;
+  resolution?: number;
 
   /**
-   * The color of each bar.
-   * This could be a CanvasGradient, CanvasPattern or a string.
-   * Or it could be function that must return a CanvasGradient, CanvasPattern or a string.
-   * Note: this function gets called for each bar in the visualizer.
-   * @param barHeight The height of the bar.
-   * @param bufferLength The length of the audio buffer
-   * @param index The index of the currently drawn bar.
-   * @returns The new bar color
+   * The element playing the audio, or a ref to it.
+   * The played part follows its current time, and clicking or dragging on the
+   * overview seeks it.
+   *
+   * @example
+   * ```tsx
+   * const [audio, setAudio] = useState<HTMLMediaElement | null>(null);
+   *
+   * <AudioVisualizer src={src} onSourceLoaded={setAudio} />
+   * <WaveformOverview src={src} mediaElement={audio} />
+   * ```
    */
-  barColor?: CustomBarColorArg;
+  mediaElement?: RefObject<HTMLMediaElement | null> | HTMLMediaElement | null;
 
   /**
-   * The padding between each bar
+   * The current time of the audio, in seconds.
+   * When set, it is used instead of the current time of `mediaElement`
    */
-  spaceBetweenBars?: number;
+  currentTime?: number;
 
   /**
-   * This is a custom function that defines how each bar is drawn.
-   * Note: this function gets called for each bar in the visualizer.
+   * Callback that is called when the user clicks or drags on the overview
    *
+   * @param seconds The time the user seeked to
+   */
+  onSeek?: (seconds: number) => void;
+
+  /**
+   * The color of the part that has not been played
    *
-   * @param ctx The canvas context
-   * @param args The necessary args to customize the drawing process
-   * @see CustomDrawFunctionArgs
+   * @default "#999"
+   */
+  waveColor?: string | CanvasGradient | CanvasPattern;
+
+  /**
+   * The color of the part that has been played
    *
-   * @default (ctx, { x, canvasHeight, barWidth, barHeight }) => ctx.fillRect(x, canvasHeight - barHeight, barWidth, barHeight);
+   * @default "#f50"
    */
-  customDrawFunction?: CustomDrawFunction;
+  progressColor?: string | CanvasGradient | CanvasPattern;
 
   /**
-   * Callback that is called when the audio source is loaded
+   * Callback that is called when `src` has been decoded and its peaks computed
    *
-   * @param audio The audio element
+   * @param peaks The computed peaks, that can be stored and passed as `peaks` later
    */
-  onSourceLoaded?: (audio: HTMLAudioElement) => void;
+  onPeaksLoaded?: (peaks: WaveformPeaks) => void;
 
   /**
-   * Callback that is called when the audio source is paused
+   * Callback that is called when `src` cannot be fetched or decoded
    *
-   * @param audio The audio element
+   * @param error The error thrown while fetching or decoding
    */
+  onError?: (error: unknown) => void;
+};
 
-  onSourceEnded?: (audio: HTMLAudioElement) => void;
+export type { WaveformOverviewProps, WaveformPeaks };
+
+type AudioVisualizerProviderProps = {
+  children?: ReactNode;
 
   /**
-   * Callback that is called when the audio source is paused
-   *
-   * @param audio The audio element
+   * The audio context shared by every visualizer in the provider,
+   * created the first time a visualizer needs it when not set
    */
-  onSourcePaused?: (audio: HTMLAudioElement) => void;
+  audioContext?: AudioContext;
 
   /**
-   * Callback that is called when the audio source is playing
+   * The sources that the visualizers can use with `sourceId`, by id.
+   * A source is either a url, played by an audio element created by the provider,
+   * or an existing audio or video element
+   */
+  sources?: Record<string, string | HTMLMediaElement>;
+
+  /**
+   * The `crossOrigin` attribute of the audio elements created for the url sources,
+   * set when an element is created
    *
-   * @param audio The audio element
+   * @see UseAudioAnalyserOptions.crossOrigin
+   * @default undefined (no attribute)
    */
-  onSourcePlaying?: (audio: HTMLAudioElement) => void;
+  crossOrigin?: CrossOrigin;
 
   /**
-   * A ref to the canvas element
+   * Whether starting a source pauses every other source of the provider,
+   * so only one player is heard at a time
+   *
+   * @default false
    */
-  canvasRef?: RefObject<HTMLCanvasElement | null>;
+  pauseOthers?: boolean;
 };
 
-export type { AudioVisualizerProps };
+export type { AudioVisualizerProviderProps };
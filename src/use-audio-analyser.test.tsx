@@ -0,0 +1,240 @@
+import { cleanup, render, renderHook, waitFor } from "@testing-library/react";
+import React, { StrictMode } from "react";
+import { afterEach, beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+import { AudioVisualizerProvider } from "./audio-visualizer-provider";
+import {
+  FakeAnalyserNode,
+  FakeAudioContext,
+  FakeMediaElementAudioSourceNode,
+  getConnectedNodes,
+  installFakeWebAudio
+} from "./test/fake-web-audio";
+import { useAudioAnalyser } from "./use-audio-analyser";
+
+/**
+ * Waits for the disposal of the graph, which is deferred to the next task
+ */
+const nextTask = () => new Promise(resolve => setTimeout(resolve));
+
+const getConnectedSources = (context: FakeAudioContext) =>
+  getConnectedNodes(context).filter(
+    node => node instanceof FakeMediaElementAudioSourceNode
+  ) as FakeMediaElementAudioSourceNode[];
+
+describe("useAudioAnalyser", () => {
+  let requestAnimationFrame: Mock;
+  let cancelAnimationFrame: Mock;
+
+  beforeEach(() => {
+    ({ requestAnimationFrame, cancelAnimationFrame } = installFakeWebAudio());
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("disposes of the audio graph on unmount", async () => {
+    const { unmount } = renderHook(() => useAudioAnalyser({ src: "song.mp3" }));
+
+    await waitFor(() => expect(requestAnimationFrame).toHaveBeenCalled());
+
+    const [context] = FakeAudioContext.instances;
+
+    unmount();
+
+    expect(cancelAnimationFrame).toHaveBeenCalled();
+
+    await nextTask();
+
+    expect(context.close).toHaveBeenCalledTimes(1);
+    expect(getConnectedNodes(context)).toEqual([]);
+  });
+
+  it("keeps a single source connected across src changes", async () => {
+    const { rerender } = renderHook(({ src }) => useAudioAnalyser({ src }), {
+      initialProps: { src: "first.mp3" }
+    });
+
+    rerender({ src: "second.mp3" });
+    rerender({ src: "third.mp3" });
+
+    await nextTask();
+
+    expect(FakeAudioContext.instances).toHaveLength(1);
+
+    const [context] = FakeAudioContext.instances;
+    const sources = getConnectedSources(context);
+
+    expect(sources).toHaveLength(1);
+    expect(sources[0].mediaElement.src).toMatch(/third\.mp3$/);
+    expect(context.close).not.toHaveBeenCalled();
+  });
+
+  it("sets the crossOrigin attribute of the source only when asked to", async () => {
+    const { rerender } = renderHook(
+      ({ crossOrigin }) => useAudioAnalyser({ src: "song.mp3", crossOrigin }),
+      { initialProps: { crossOrigin: undefined as "anonymous" | undefined } }
+    );
+
+    const [context] = FakeAudioContext.instances;
+
+    expect(getConnectedSources(context)[0].mediaElement.crossOrigin).toBeNull();
+
+    rerender({ crossOrigin: "anonymous" });
+
+    expect(getConnectedSources(context)[0].mediaElement.crossOrigin).toBe(
+      "anonymous"
+    );
+  });
+
+  it("reuses the audio graph across a StrictMode double mount", async () => {
+    renderHook(() => useAudioAnalyser({ src: "song.mp3" }), { wrapper: StrictMode });
+
+    await nextTask();
+
+    expect(FakeAudioContext.instances).toHaveLength(1);
+
+    const [context] = FakeAudioContext.instances;
+
+    expect(context.close).not.toHaveBeenCalled();
+    expect(
+      context.nodes.filter(node => node instanceof FakeAnalyserNode)
+    ).toHaveLength(1);
+    expect(getConnectedSources(context)).toHaveLength(1);
+
+    /**
+     * The analyser is still fed by the effects chain
+     */
+    expect(
+      context.nodes.some(node =>
+        [...node.connections].some(target => target instanceof FakeAnalyserNode)
+      )
+    ).toBe(true);
+  });
+
+  it("does not close the audio context of the provider", async () => {
+    const context = new FakeAudioContext();
+
+    const Visualizer = () => {
+      useAudioAnalyser({ src: "song.mp3" });
+      return null;
+    };
+
+    const { rerender } = render(
+      <AudioVisualizerProvider audioContext={context as unknown as AudioContext}>
+        <Visualizer />
+      </AudioVisualizerProvider>
+    );
+
+    rerender(
+      <AudioVisualizerProvider audioContext={context as unknown as AudioContext} />
+    );
+
+    await nextTask();
+
+    expect(context.close).not.toHaveBeenCalled();
+    expect(getConnectedNodes(context)).toEqual([]);
+  });
+
+  it("leaves the settings of an external media element alone", async () => {
+    const element = document.createElement("audio");
+
+    element.loop = true;
+    element.volume = 0.5;
+    element.playbackRate = 1.5;
+
+    const { rerender } = renderHook(
+      ({ volume }: { volume?: number }) =>
+        useAudioAnalyser({ mediaElement: element, volume }),
+      { initialProps: {} }
+    );
+
+    expect(element.loop).toBe(true);
+    expect(element.volume).toBe(0.5);
+    expect(element.playbackRate).toBe(1.5);
+
+    element.currentTime = 10;
+    element.dispatchEvent(new Event("ended"));
+
+    await nextTask();
+
+    expect(element.currentTime).toBe(10);
+
+    rerender({ volume: 0.2 });
+
+    expect(element.volume).toBe(0.2);
+  });
+
+  it("reports the errors of an external media element without pausing it", async () => {
+    const element = document.createElement("audio");
+    const onError = vi.fn();
+
+    vi.stubGlobal("fetch", vi.fn().mockRejectedValue(new TypeError("Failed")));
+
+    renderHook(() => useAudioAnalyser({ mediaElement: element, onError }));
+
+    element.dispatchEvent(new Event("error"));
+
+    await waitFor(() => expect(onError).toHaveBeenCalled());
+
+    expect(element.pause).not.toHaveBeenCalled();
+  });
+
+  it("only requests the headers of a failed source, and never for a blob", async () => {
+    const element = document.createElement("audio");
+    const onError = vi.fn();
+    const fetch = vi.fn().mockResolvedValue({ ok: false });
+
+    vi.stubGlobal("fetch", fetch);
+
+    renderHook(() => useAudioAnalyser({ mediaElement: element, onError }));
+
+    element.src = "missing.mp3";
+    element.dispatchEvent(new Event("error"));
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+
+    expect(onError.mock.calls[0][0].kind).toBe("network");
+    expect(fetch).toHaveBeenCalledWith(expect.stringMatching(/missing\.mp3$/), {
+      method: "HEAD"
+    });
+
+    element.src = "blob:http://localhost/song";
+    element.dispatchEvent(new Event("error"));
+
+    await waitFor(() => expect(onError).toHaveBeenCalledTimes(2));
+
+    expect(onError.mock.calls[1][0].kind).toBe("unsupported");
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a blocked playlist track, with the latest callbacks", async () => {
+    const onAudioStateChange = vi.fn();
+    const onTrackChange = vi.fn();
+
+    const { result, rerender } = renderHook(
+      ({ onTrackChange }: { onTrackChange?: () => void }) =>
+        useAudioAnalyser({
+          playlist: ["first.mp3", "second.mp3"],
+          autoStart: false,
+          onAudioStateChange,
+          onTrackChange
+        }),
+      { initialProps: {} }
+    );
+
+    rerender({ onTrackChange });
+
+    vi.mocked(HTMLMediaElement.prototype.play).mockRejectedValue(
+      new DOMException("A user gesture is required", "NotAllowedError")
+    );
+
+    result.current.getAudioElement()?.dispatchEvent(new Event("ended"));
+
+    await waitFor(() => expect(onAudioStateChange).toHaveBeenCalledWith("blocked"));
+
+    expect(onTrackChange).toHaveBeenCalledWith(1, "second.mp3");
+  });
+});
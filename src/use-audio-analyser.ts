@@ -0,0 +1,899 @@
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import {
+  attachMediaElement,
+  configureAnalyser,
+  createAnimationHandlers,
+  createChannelAnalysers,
+  getMediaElementSource,
+  getMediaError,
+  isTainted,
+  load,
+  loadStream,
+  playMedia,
+  resolveMediaElement,
+  resumeAudioContext,
+  unload,
+  validateAudioSettings
+} from "./scripts";
+import {
+  AudioVisualizerContext,
+  type AudioPlayer
+} from "./audio-visualizer-provider";
+import { createBeatTracker, type BeatTrackerOptions } from "./beat-detection";
+import { createEffectsChain, type EffectsChain } from "./effects";
+import type { FrequencyLevelsOptions } from "./frequency-levels";
+import { createPlaylist, type Playlist } from "./playlist";
+import type {
+  AudioAnalyser,
+  AudioAnalyserListener,
+  AudioError,
+  AudioState,
+  IdleFrame,
+  UseAudioAnalyserOptions
+} from "./types";
+
+/**
+ * A headless hook that loads an audio source, connects it to an analyser node
+ * and handles its state, without drawing anything.
+ * The analyser data can be read on each frame with `subscribe`,
+ * to render it with any DOM, SVG or WebGL component.
+ *
+ * @param options The audio source and playback options
+ * @see UseAudioAnalyserOptions
+ * @returns The audio state, the playback controls and the frame subscription
+ * @see AudioAnalyser
+ */
+function useAudioAnalyser({
+  src,
+  crossOrigin,
+  mediaElement,
+  sourceId,
+  audioState: audioStateProp,
+  onAudioStateChange: onAudioStateChangeProp,
+  timeFactor = 1000,
+  onTimeChange,
+  autoStart = true,
+  loop: loopProp,
+  volume: volumeProp,
+  fftSize = 256,
+  minDecibels = -100,
+  maxDecibels = -30,
+  smoothingTimeConstant = 0.8,
+  dataFormat = "byte",
+  gamma = 1,
+  frequencyWeighting = "none",
+  channels = "mono",
+  playbackRate: playbackRateProp,
+  playlist,
+  crossfade = 0,
+  shuffle = false,
+  repeat = "off",
+  onTrackChange,
+  equalizer = [],
+  gain = 1,
+  pan = 0,
+  compressor = false,
+  analyserPosition = "post",
+  onBeat,
+  onTempoChange,
+  beatBand = "low",
+  beatThreshold = 1.5,
+  idleFrame = "freeze",
+
+  onSourceLoaded,
+  onSourceEnded,
+  onSourcePaused,
+  onSourcePlaying,
+  onError
+}: UseAudioAnalyserOptions): AudioAnalyser {
+  /**
+   * The props left unset are not applied to the elements the hook does not own,
+   * so they keep the settings of the host app
+   */
+  const loop = loopProp ?? false;
+  const volume = volumeProp ?? 1;
+  const playbackRate = playbackRateProp ?? 1;
+
+  /**
+   * The invalid settings are thrown while rendering,
+   * so they reach the closest error boundary with a clear message
+   */
+  validateAudioSettings({
+    fftSize,
+    minDecibels,
+    maxDecibels,
+    smoothingTimeConstant,
+    volume
+  });
+
+  /**
+   * The surrounding provider, that shares its audio context and sources
+   * @see AudioVisualizerProvider
+   */
+  const provider = useContext(AudioVisualizerContext);
+
+  /**
+   * Create the audio context and analyser node
+   */
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const analyserRef = useRef<AnalyserNode | null>(null);
+
+  /**
+   * Whether the audio context was created by the hook, and must be closed with it.
+   * The contexts of the provider and of the media elements are shared, so they are kept
+   */
+  const ownsContextRef = useRef(false);
+
+  /**
+   * Whether the hook is mounted, to tell an unmount apart from the effects
+   * being cleaned up and run again, as React does in StrictMode
+   */
+  const mountedRef = useRef(false);
+
+  /**
+   * The effects between the audio source and the speakers, the sources are connected to its input
+   * @see createEffectsChain in `effects.ts`
+   */
+  const effectsRef = useRef<EffectsChain | null>(null);
+
+  /**
+   * Create an internal state for the audio source,
+   * used if the user does not provide their own state
+   */
+  const [internalState, setInternalState] = useState<AudioState>("unset");
+
+  const audioState = audioStateProp ?? internalState;
+  const onAudioStateChange = onAudioStateChangeProp ?? setInternalState;
+
+  const audioRef = useRef<HTMLMediaElement | null>(null);
+
+  /**
+   * Whether `audioRef` holds an element of the host app or of the provider,
+   * that the hook must not rewind or pause on its own
+   */
+  const externalRef = useRef(false);
+  const streamSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+
+  /**
+   * The playlist controls, `audioRef` always holds its current track
+   * @see createPlaylist in `playlist.ts`
+   */
+  const playlistRef = useRef<Playlist | null>(null);
+  const [trackIndex, setTrackIndex] = useState(0);
+
+  /**
+   * The playlist is only recreated when its tracks change, not on every new array
+   */
+  const playlistKey = playlist?.join("\n");
+
+  /**
+   * The analysers of each channel, empty in mono
+   */
+  const channelAnalysersRef = useRef<AnalyserNode[]>([]);
+
+  /**
+   * The functions subscribed to the analyser data
+   */
+  const listenersRef = useRef(new Set<AudioAnalyserListener>());
+
+  /**
+   * The format of the levels, read on each frame by the animation,
+   * so it can change without restarting the animation
+   */
+  const levelsOptionsRef = useRef<FrequencyLevelsOptions>({
+    dataFormat,
+    gamma,
+    frequencyWeighting
+  });
+
+  levelsOptionsRef.current = { dataFormat, gamma, frequencyWeighting };
+
+  /**
+   * The callbacks of the playlist, read when the track changes,
+   * so they can change without recreating the playlist
+   */
+  const playlistCallbacksRef = useRef({ onTrackChange, onSourceLoaded });
+
+  playlistCallbacksRef.current = { onTrackChange, onSourceLoaded };
+
+  /**
+   * The beat detection options, read on each frame by the beat tracker,
+   * so the callbacks can change without restarting the animation
+   */
+  const beatOptionsRef = useRef<BeatTrackerOptions | null>(null);
+
+  beatOptionsRef.current = {
+    band: beatBand,
+    threshold: beatThreshold,
+    onBeat,
+    onTempoChange,
+    getTime: () =>
+      audioRef.current?.currentTime ?? audioContextRef.current?.currentTime ?? 0
+  };
+
+  /**
+   * How the provider sees this hook, read when another source starts playing
+   */
+  const playerRef = useRef<AudioPlayer | null>(null);
+
+  playerRef.current = {
+    audioState,
+    getAudioElement: () => audioRef.current,
+    pause: () => onAudioStateChange("paused")
+  };
+
+  /**
+   * Create refs for the start and stop animation functions
+   * @see createAnimationHandlers in `scripts.ts`
+   */
+  const startAnimationRef = useRef<(() => void) | null>(null);
+  const stopAnimationRef = useRef<((idleFrame?: IdleFrame) => void) | null>(null);
+
+  /**
+   * What is drawn when the playback stops, read from a ref
+   * since the animation is also stopped from the cleanups of previous renders
+   */
+  const idleFrameRef = useRef(idleFrame);
+
+  idleFrameRef.current = idleFrame;
+
+  /**
+   * Stops the animation when the playback stops, drawing the idle frame
+   */
+  const stopPlaybackAnimation = () => {
+    stopAnimationRef.current?.(idleFrameRef.current);
+  };
+
+  /**
+   * Creates the channel analysers and the animation handlers that read from them.
+   * If the audio is playing, the animation is moved to the new handlers
+   */
+  const createAnimation = (analyser: AnalyserNode) => {
+    stopAnimationRef.current?.();
+
+    channelAnalysersRef.current = createChannelAnalysers(analyser, channels);
+
+    /**
+     * The beats are detected before the listeners are called,
+     * so they can read the beat pulse of the frame
+     */
+    const trackBeats = createBeatTracker();
+
+    const [start, stop] = createAnimationHandlers(
+      analyser,
+      channelAnalysersRef.current,
+      frame => {
+        if (beatOptionsRef.current) trackBeats(frame, beatOptionsRef.current);
+
+        listenersRef.current.forEach(listener => listener(frame));
+      },
+      () => levelsOptionsRef.current
+    );
+
+    startAnimationRef.current = start;
+    stopAnimationRef.current = stop;
+
+    if (audioState === "playing") {
+      start();
+    }
+  };
+
+  /**
+   * Stops the animation and disconnects the analysers and the effects chain,
+   * then closes the audio context if the hook created it
+   */
+  const disposeGraph = () => {
+    stopAnimationRef.current?.();
+
+    effectsRef.current?.dispose();
+    analyserRef.current?.disconnect();
+    channelAnalysersRef.current.forEach(channelAnalyser =>
+      channelAnalyser.disconnect()
+    );
+
+    if (ownsContextRef.current && audioContextRef.current?.state !== "closed") {
+      audioContextRef.current?.close();
+    }
+
+    effectsRef.current = null;
+    analyserRef.current = null;
+    channelAnalysersRef.current = [];
+    audioContextRef.current = null;
+    ownsContextRef.current = false;
+  };
+
+  /**
+   * Creates a new analyser node in the given audio context,
+   * along with the effects chain in front of it and the animation that reads from it.
+   * The previous nodes are disposed of first
+   *
+   * @param audioContext The audio context to create the nodes in
+   * @param owned Whether the context was created for this hook, and must be closed with it
+   * @returns The effects chain, that the audio sources are connected to
+   */
+  const createAnalyser = (
+    audioContext: AudioContext,
+    owned = false
+  ): EffectsChain => {
+    disposeGraph();
+
+    audioContextRef.current = audioContext;
+    ownsContextRef.current = owned;
+    analyserRef.current = audioContext.createAnalyser();
+
+    configureAnalyser(analyserRef.current, {
+      fftSize,
+      minDecibels,
+      maxDecibels,
+      smoothingTimeConstant
+    });
+
+    effectsRef.current = createEffectsChain(audioContext, analyserRef.current, {
+      equalizer,
+      gain,
+      pan,
+      compressor,
+      analyserPosition
+    });
+
+    createAnimation(analyserRef.current);
+
+    return effectsRef.current;
+  };
+
+  /**
+   * Moves to the "error" state and reports the error
+   */
+  const fail = (error: AudioError) => {
+    stopPlaybackAnimation();
+    onAudioStateChange("error");
+    onError?.(error);
+  };
+
+  /**
+   * Reports the error of a media element that could not be loaded
+   */
+  const failWithMediaError = (element: HTMLMediaElement) => {
+    getMediaError(element).then(fail);
+  };
+
+  /**
+   * Plays the audio element, or resumes the audio context of a live stream.
+   * When the browser requires a user gesture first, the state moves to "blocked"
+   * until `resume` is called
+   */
+  const startPlayback = () => {
+    const audioContext = audioContextRef.current;
+    const audio = audioRef.current;
+
+    if (!audioContext) return;
+
+    const playback = audio
+      ? playMedia(audio, audioContext)
+      : resumeAudioContext(audioContext).then(running =>
+          running ? "playing" : "blocked"
+        );
+
+    playback
+      .then(state => {
+        if (state === "blocked") onAudioStateChange("blocked");
+      })
+      .catch(() => {
+        /**
+         * The other errors are reported by the error event of the element,
+         * or come from a pause that interrupted the playback
+         */
+      });
+  };
+
+  /**
+   * Make sure the analysers are updated when the `fftSize`, the decibel range
+   * or the `smoothingTimeConstant` props are changed
+   */
+  useEffect(() => {
+    if (!analyserRef.current) return;
+
+    const settings = { fftSize, minDecibels, maxDecibels, smoothingTimeConstant };
+
+    [analyserRef.current, ...channelAnalysersRef.current].forEach(analyser =>
+      configureAnalyser(analyser, settings)
+    );
+  }, [fftSize, minDecibels, maxDecibels, smoothingTimeConstant]);
+
+  /**
+   * Make sure the channels are split or merged when the `channels` prop is changed
+   */
+  useEffect(() => {
+    if (!analyserRef.current) return;
+
+    createAnimation(analyserRef.current);
+  }, [channels]);
+
+  /**
+   * This useEffect hook is responsible for loading the audio source
+   * When the `src` prop is changed, this hook will load the new audio source
+   * and starting playing it if `autoStart` is true
+   *
+   * When `mediaElement` is set, it is attached instead of `src`,
+   * and the audio state follows the element's own events
+   *
+   * When `playlist` is set, it is played instead of `src`
+   */
+  useEffect(() => {
+    const element =
+      sourceId !== undefined
+        ? provider?.getSource(sourceId) ?? null
+        : resolveMediaElement(mediaElement);
+
+    if (element) {
+      const source = getMediaElementSource(element, provider?.getAudioContext());
+
+      /**
+       * The analyser must live in the same context as the element source
+       */
+      const effects =
+        audioContextRef.current === source.context && effectsRef.current
+          ? effectsRef.current
+          : createAnalyser(source.context as AudioContext);
+
+      /**
+       * The element is already connected to the speakers
+       * @see getMediaElementSource in `scripts.ts`
+       */
+      effects.setAudible(false);
+
+      audioRef.current = element;
+      externalRef.current = true;
+
+      /**
+       * Only the props that are set are applied, the element keeps its other settings
+       */
+      if (loopProp !== undefined) element.loop = loopProp;
+      if (volumeProp !== undefined) element.volume = volumeProp;
+      if (playbackRateProp !== undefined) element.playbackRate = playbackRateProp;
+
+      /**
+       * An element playing a source from another origin without `crossOrigin`
+       * only gives silence to the analyser, which cannot be fixed from here
+       */
+      const detach = attachMediaElement(
+        element,
+        source,
+        effects.input,
+        onAudioStateChange,
+        () => {
+          if (isTainted(element)) {
+            fail({
+              kind: "cors",
+              cause: new Error(
+                "The media element plays a source from another origin without the crossOrigin attribute"
+              )
+            });
+          }
+
+          onSourceLoaded?.(element);
+        },
+        () => failWithMediaError(element)
+      );
+
+      return () => {
+        detach();
+        audioRef.current = null;
+        externalRef.current = false;
+      };
+    }
+
+    if (sourceId !== undefined || (!src && !playlist?.length)) return;
+
+    /**
+     * The analyser and the effects are kept across sources,
+     * only the source nodes are replaced
+     */
+    const effects =
+      audioContextRef.current && effectsRef.current
+        ? effectsRef.current
+        : provider
+          ? createAnalyser(provider.getAudioContext())
+          : createAnalyser(new AudioContext(), true);
+
+    const audioContext = effects.input.context as AudioContext;
+
+    /**
+     * Live streams must never be played back, since that would cause feedback
+     */
+    effects.setAudible(!(src instanceof MediaStream));
+
+    if (playlist?.length) {
+      const tracks = playlist;
+
+      const controls = createPlaylist(
+        tracks,
+        audioContext,
+        effects.input,
+        crossOrigin,
+        { crossfade, shuffle, repeat },
+        (audio, index) => {
+          audioRef.current = audio;
+
+          setTrackIndex(index);
+          playlistCallbacksRef.current.onTrackChange?.(index, tracks[index]);
+
+          if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) {
+            playlistCallbacksRef.current.onSourceLoaded?.(audio);
+          } else {
+            audio.onloadedmetadata = () =>
+              playlistCallbacksRef.current.onSourceLoaded?.(audio);
+          }
+
+          audio.onerror = () => failWithMediaError(audio);
+        },
+        () => onAudioStateChange("ended"),
+        () => onAudioStateChange("blocked")
+      );
+
+      const audio = controls.getAudioElement();
+
+      audio.playbackRate = playbackRate;
+      audio.volume = volume;
+
+      playlistRef.current = controls;
+
+      onAudioStateChange("pending");
+
+      if (autoStart) {
+        onAudioStateChange("playing");
+        startPlayback();
+      }
+
+      return () => {
+        playlistRef.current?.dispose();
+        playlistRef.current = null;
+        audioRef.current = null;
+      };
+    }
+
+    if (!src) return;
+
+    /**
+     * Live streams have no audio element,
+     * so loop, playbackRate and volume do not apply
+     */
+    if (src instanceof MediaStream) {
+      /**
+       * A stream without audio tracks cannot be connected
+       */
+      if (src.getAudioTracks().length === 0) {
+        fail({
+          kind: "unsupported",
+          cause: new Error("The MediaStream has no audio track")
+        });
+
+        return;
+      }
+
+      const source = loadStream(
+        src,
+        audioContext,
+        effects.input,
+        onAudioStateChange,
+        () => {
+          if (streamSourceRef.current === source) {
+            onAudioStateChange("ended");
+          }
+        }
+      );
+
+      streamSourceRef.current = source;
+
+      if (autoStart) {
+        onAudioStateChange("playing");
+      }
+
+      return () => {
+        source.disconnect();
+        streamSourceRef.current = null;
+
+        if (!autoStart) {
+          stopPlaybackAnimation();
+        }
+      };
+    }
+
+    const source = load(
+      src,
+      crossOrigin,
+      audioContext,
+      effects.input,
+      onAudioStateChange,
+      () => onSourceLoaded?.(source.mediaElement),
+      () => onAudioStateChange("ended"),
+      () => failWithMediaError(source.mediaElement)
+    );
+
+    const audio = source.mediaElement;
+
+    audio.playbackRate = playbackRate;
+
+    audioRef.current = audio;
+
+    if (autoStart) {
+      onAudioStateChange("playing");
+      startPlayback();
+    }
+
+    /**
+     * The previous source is unloaded before the next one is loaded,
+     * so only one source node is ever connected to the effects chain
+     */
+    return () => {
+      unload(source);
+      audioRef.current = null;
+
+      if (!autoStart) {
+        stopPlaybackAnimation();
+      }
+    };
+  }, [src, crossOrigin, mediaElement, sourceId, playlistKey]);
+
+  /**
+   * This useEffect hook is responsible for disposing of the audio graph on unmount
+   * The animation is stopped right away, and the nodes are disposed of on the next task,
+   * unless the hook has been mounted again in the meantime, like in StrictMode,
+   * in which case the same graph is reused
+   */
+  useEffect(() => {
+    mountedRef.current = true;
+
+    return () => {
+      mountedRef.current = false;
+      stopAnimationRef.current?.();
+
+      setTimeout(() => {
+        if (!mountedRef.current) disposeGraph();
+      });
+    };
+  }, []);
+
+  /**
+   * Make sure the effects follow their props
+   * The nodes are updated in place, so the source keeps playing
+   */
+  useEffect(() => {
+    effectsRef.current?.update({
+      equalizer,
+      gain,
+      pan,
+      compressor,
+      analyserPosition
+    });
+  }, [
+    JSON.stringify(equalizer),
+    gain,
+    pan,
+    JSON.stringify(compressor),
+    analyserPosition
+  ]);
+
+  /**
+   * Make sure the playlist follows the `crossfade`, `shuffle` and `repeat` props
+   */
+  useEffect(() => {
+    playlistRef.current?.update({ crossfade, shuffle, repeat });
+  }, [crossfade, shuffle, repeat]);
+
+  /**
+   * Make sure the audio is looped when the `loop` prop is changed
+   * The playlist handles looping itself with `repeat`
+   */
+  useEffect(() => {
+    if (!audioRef.current || playlistRef.current) return;
+    if (externalRef.current && loopProp === undefined) return;
+
+    audioRef.current.loop = loop;
+  }, [loopProp]);
+
+  /**
+   * Make sure the speed is changed when the `playbackRate` prop is changed
+   */
+  useEffect(() => {
+    if (!audioRef.current) return;
+    if (externalRef.current && playbackRateProp === undefined) return;
+
+    audioRef.current.playbackRate = playbackRate;
+  }, [playbackRateProp]);
+
+  /**
+   * Make sure the volume is changed when the `volume` prop is changed
+   */
+  useEffect(() => {
+    if (!audioRef.current) return;
+    if (externalRef.current && volumeProp === undefined) return;
+
+    audioRef.current.volume = volume;
+  }, [volumeProp]);
+
+  /**
+   * This useEffect hook is responsible for updating the time elapsed
+   * When the audio is playing, we should update the time elapsed every `timeFactor`
+   * if the audio is paused or ended, we should stop updating the time elapsed
+   */
+  useEffect(() => {
+    if (!audioRef.current) return;
+
+    let interval: NodeJS.Timeout | null = null;
+
+    switch (audioState) {
+      case "playing": {
+        interval = setInterval(() => {
+          onTimeChange?.(audioRef.current?.currentTime ?? 0);
+        }, timeFactor / playbackRate);
+
+        break;
+      }
+
+      case "paused":
+      case "ended": {
+        void (interval && clearInterval(interval));
+
+        break;
+      }
+    }
+
+    return () => {
+      void (interval && clearInterval(interval));
+    };
+  }, [audioState, timeFactor, playbackRate]);
+
+  /**
+   * Register the hook in the provider, for the "pause others" policy
+   */
+  useEffect(() => provider?.registerPlayer(playerRef), [provider]);
+
+  /**
+   * This useEffect hook is responsible for playing, pausing and ending the audio
+   * When the `audioState` prop is changed, this hook will play, pause or end the audio
+   * Inside a provider with `pauseOthers`, playing pauses the other sources
+   */
+  useEffect(() => {
+    if (audioState === "playing") provider?.notifyPlaying(playerRef);
+
+    /**
+     * A live stream cannot be paused or rewound,
+     * so the state only drives the animation
+     */
+    if (streamSourceRef.current) {
+      switch (audioState) {
+        case "playing": {
+          startPlayback();
+          startAnimationRef.current?.();
+          break;
+        }
+
+        case "paused":
+        case "ended":
+        case "blocked":
+        case "error": {
+          stopPlaybackAnimation();
+          break;
+        }
+      }
+
+      return;
+    }
+
+    if (!audioRef.current) return;
+
+    switch (audioState) {
+      case "playing": {
+        startPlayback();
+
+        onSourcePlaying?.(audioRef.current);
+        startAnimationRef.current?.();
+        break;
+      }
+
+      case "paused": {
+        audioRef.current.pause();
+
+        onSourcePaused?.(audioRef.current);
+        stopPlaybackAnimation();
+        break;
+      }
+
+      case "ended": {
+        audioRef.current.pause();
+
+        /**
+         * The elements of the host app keep their position, e.g. at the end
+         */
+        if (!externalRef.current) audioRef.current.currentTime = 0;
+
+        onSourceEnded?.(audioRef.current);
+        stopPlaybackAnimation();
+        break;
+      }
+
+      case "blocked": {
+        audioRef.current.pause();
+
+        stopPlaybackAnimation();
+        break;
+      }
+
+      case "error": {
+        /**
+         * The elements of the host app can still be playing, e.g. a source from
+         * another origin only silences the analyser, so only the error is reported
+         */
+        if (!externalRef.current) audioRef.current.pause();
+
+        stopPlaybackAnimation();
+        break;
+      }
+    }
+  }, [audioState]);
+
+  const play = useCallback(
+    () => onAudioStateChange("playing"),
+    [onAudioStateChange]
+  );
+
+  /**
+   * The audio context and the element are resumed right away,
+   * while the user gesture still allows it
+   */
+  const resume = useCallback(() => {
+    audioContextRef.current?.resume().catch(() => {});
+    audioRef.current?.play().catch(() => {});
+
+    onAudioStateChange("playing");
+  }, [onAudioStateChange]);
+
+  const pause = useCallback(
+    () => onAudioStateChange("paused"),
+    [onAudioStateChange]
+  );
+
+  const stop = useCallback(() => onAudioStateChange("ended"), [onAudioStateChange]);
+
+  const seek = useCallback(
+    (seconds: number) => {
+      if (!audioRef.current) return;
+
+      audioRef.current.currentTime = seconds;
+      onTimeChange?.(seconds);
+    },
+    [onTimeChange]
+  );
+
+  const next = useCallback(() => playlistRef.current?.next(), []);
+  const previous = useCallback(() => playlistRef.current?.previous(), []);
+
+  const subscribe = useCallback((listener: AudioAnalyserListener) => {
+    listenersRef.current.add(listener);
+
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const getAnalyser = useCallback(() => analyserRef.current, []);
+  const getAudioElement = useCallback(() => audioRef.current, []);
+
+  return {
+    audioState,
+    play,
+    resume,
+    pause,
+    stop,
+    seek,
+    trackIndex,
+    next,
+    previous,
+    subscribe,
+    getAnalyser,
+    getAudioElement
+  };
+}
+
+export { useAudioAnalyser };
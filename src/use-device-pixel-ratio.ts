@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Gets the device pixel ratio of the screen, 1 on the server
+ */
+const getDevicePixelRatio = () =>
+  typeof window === "undefined" ? 1 : window.devicePixelRatio;
+
+/**
+ * A hook that follows the device pixel ratio of the screen,
+ * which changes when the page is zoomed or moved to another screen
+ *
+ * @param enabled Whether the ratio is read, so it is not listened to when ignored
+ * @returns The number of device pixels per CSS pixel
+ */
+function useDevicePixelRatio(enabled = true): number {
+  const [devicePixelRatio, setDevicePixelRatio] = useState(getDevicePixelRatio);
+
+  /**
+   * This useEffect hook is responsible for listening to the ratio,
+   * with a media query matching the current ratio only, so it is replaced on each change
+   */
+  useEffect(() => {
+    if (!enabled || typeof matchMedia === "undefined") return;
+
+    let query: MediaQueryList | null = null;
+
+    const onChange = () => {
+      setDevicePixelRatio(getDevicePixelRatio());
+
+      query?.removeEventListener("change", onChange);
+      query = matchMedia(`(resolution: ${getDevicePixelRatio()}dppx)`);
+      query.addEventListener("change", onChange);
+    };
+
+    onChange();
+
+    return () => query?.removeEventListener("change", onChange);
+  }, [enabled]);
+
+  return devicePixelRatio;
+}
+
+export { useDevicePixelRatio };
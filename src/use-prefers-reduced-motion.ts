@@ -0,0 +1,38 @@
+import { useEffect, useState } from "react";
+
+/**
+ * The media query matched when the user asks for less motion
+ */
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+/**
+ * A hook that follows the `prefers-reduced-motion` setting of the user.
+ * It is false on the server and on the first render,
+ * so the markup rendered on the server hydrates without mismatches
+ *
+ * @param enabled Whether the setting is read, so it is not listened to when ignored
+ * @returns Whether the user prefers reduced motion
+ */
+function usePrefersReducedMotion(enabled = true): boolean {
+  const [prefersReducedMotion, setPrefersReducedMotion] = useState(false);
+
+  /**
+   * This useEffect hook is responsible for listening to the media query,
+   * since the setting can change while the page is open
+   */
+  useEffect(() => {
+    if (!enabled || typeof matchMedia === "undefined") return;
+
+    const query = matchMedia(REDUCED_MOTION_QUERY);
+    const onChange = () => setPrefersReducedMotion(query.matches);
+
+    onChange();
+    query.addEventListener("change", onChange);
+
+    return () => query.removeEventListener("change", onChange);
+  }, [enabled]);
+
+  return enabled && prefersReducedMotion;
+}
+
+export { usePrefersReducedMotion };
@@ -0,0 +1,86 @@
+import { cleanup, fireEvent, render, waitFor } from "@testing-library/react";
+import React from "react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { WaveformOverview } from "./waveform-overview";
+
+describe("WaveformOverview", () => {
+  beforeEach(() => {
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue({
+      clearRect: () => {},
+      fillRect: () => {}
+    } as unknown as CanvasRenderingContext2D);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    vi.stubGlobal(
+      "OfflineAudioContext",
+      class {
+        decodeAudioData = async () => ({
+          length: 4,
+          duration: 10,
+          numberOfChannels: 1,
+          getChannelData: () => new Float32Array([0, 0.5, -0.5, 1])
+        });
+      }
+    );
+  });
+
+  afterEach(() => {
+    cleanup();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("throws on an invalid resolution", () => {
+    expect(() => render(<WaveformOverview resolution={0} />)).toThrow(
+      "Invalid resolution: 0"
+    );
+    expect(() => render(<WaveformOverview resolution={-2} />)).toThrow(
+      "Invalid resolution: -2"
+    );
+  });
+
+  it("drops the peaks of the previous source", async () => {
+    const onPeaksLoaded = vi.fn();
+    const onSeek = vi.fn();
+
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (src: string) =>
+        src === "first.mp3"
+          ? { ok: true, arrayBuffer: async () => new ArrayBuffer(0) }
+          : new Promise(() => {})
+      )
+    );
+
+    const { container, rerender } = render(
+      <WaveformOverview
+        src="first.mp3"
+        resolution={2}
+        onPeaksLoaded={onPeaksLoaded}
+        onSeek={onSeek}
+      />
+    );
+    const canvas = container.querySelector("canvas")!;
+
+    canvas.setPointerCapture = () => {};
+
+    await waitFor(() => expect(onPeaksLoaded).toHaveBeenCalled());
+
+    fireEvent.pointerDown(canvas);
+
+    expect(onSeek).toHaveBeenCalledTimes(1);
+
+    rerender(
+      <WaveformOverview
+        src="second.mp3"
+        resolution={2}
+        onPeaksLoaded={onPeaksLoaded}
+        onSeek={onSeek}
+      />
+    );
+
+    fireEvent.pointerDown(canvas);
+
+    expect(onSeek).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,192 @@
+import React, {
+  useEffect,
+  useRef,
+  useState,
+  type FC,
+  type PointerEvent
+} from "react";
+import {
+  computeWaveformPeaks,
+  decodeAudio,
+  drawWaveformOverview,
+  validateResolution
+} from "./overview";
+import { resolveMediaElement } from "./scripts";
+import type { WaveformOverviewProps, WaveformPeaks } from "./types";
+
+/**
+ * The peaks decoded from a source, with the source
+ */
+type DecodedPeaks = { src: string; peaks: WaveformPeaks };
+
+const WaveformOverview: FC<WaveformOverviewProps> = ({
+  src,
+  peaks: peaksProp,
+  resolution,
+  mediaElement,
+  currentTime,
+  onSeek,
+  waveColor = "#999",
+  progressColor = "#f50",
+  onPeaksLoaded,
+  onError,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  ...props
+}) => {
+  /**
+   * The invalid resolution is thrown while rendering,
+   * so it reaches the closest error boundary with a clear message
+   */
+  if (resolution !== undefined) validateResolution(resolution);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  /**
+   * The peaks computed from `src`, used if the user does not provide their own.
+   * They are kept with their source, so the peaks of the previous source
+   * are not drawn while the next one is decoded
+   */
+  const [decoded, setDecoded] = useState<DecodedPeaks | null>(null);
+
+  const peaks = peaksProp ?? (decoded && decoded.src === src ? decoded.peaks : null);
+
+  const draggingRef = useRef(false);
+
+  /**
+   * This useEffect hook is responsible for decoding the audio file
+   * When the `src` prop is changed, the previous request is aborted
+   */
+  useEffect(() => {
+    if (peaksProp || !src || !canvasRef.current) return;
+
+    const controller = new AbortController();
+    const columns = resolution ?? canvasRef.current.width;
+
+    decodeAudio(src, controller.signal)
+      .then(buffer => {
+        const peaks = computeWaveformPeaks(buffer, columns);
+
+        setDecoded({ src, peaks });
+        onPeaksLoaded?.(peaks);
+      })
+      .catch(error => {
+        if (!controller.signal.aborted) {
+          onError?.(error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [src, peaksProp, resolution]);
+
+  /**
+   * This useEffect hook is responsible for drawing the overview
+   * While the media element is playing, the played part is redrawn on every frame,
+   * and the overview is cleared while there are no peaks
+   */
+  useEffect(() => {
+    const canvas = canvasRef.current;
+
+    if (!canvas) return;
+
+    if (!peaks) {
+      canvas.getContext("2d")?.clearRect(0, 0, canvas.width, canvas.height);
+      return;
+    }
+
+    const element = resolveMediaElement(mediaElement);
+
+    const draw = () => {
+      const time = currentTime ?? element?.currentTime ?? 0;
+
+      drawWaveformOverview(
+        canvas,
+        peaks,
+        peaks.duration > 0 ? time / peaks.duration : 0,
+        waveColor,
+        progressColor
+      );
+    };
+
+    draw();
+
+    if (!element || currentTime !== undefined) return;
+
+    let frameID: number | null = null;
+
+    const loop = () => {
+      draw();
+      frameID = requestAnimationFrame(loop);
+    };
+
+    const onPlay = () => {
+      if (frameID === null) loop();
+    };
+
+    const onPause = () => {
+      if (frameID !== null) cancelAnimationFrame(frameID);
+
+      frameID = null;
+      draw();
+    };
+
+    element.addEventListener("play", onPlay);
+    element.addEventListener("pause", onPause);
+    element.addEventListener("ended", onPause);
+    element.addEventListener("seeked", draw);
+
+    if (!element.paused) onPlay();
+
+    return () => {
+      if (frameID !== null) cancelAnimationFrame(frameID);
+
+      element.removeEventListener("play", onPlay);
+      element.removeEventListener("pause", onPause);
+      element.removeEventListener("ended", onPause);
+      element.removeEventListener("seeked", draw);
+    };
+  }, [peaks, currentTime, mediaElement, waveColor, progressColor]);
+
+  /**
+   * Seeks to the time under the pointer
+   */
+  const seek = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!peaks) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+    const seconds = fraction * peaks.duration;
+
+    const element = resolveMediaElement(mediaElement);
+
+    if (element) {
+      element.currentTime = seconds;
+    }
+
+    onSeek?.(seconds);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        draggingRef.current = true;
+        seek(e);
+        onPointerDown?.(e);
+      }}
+      onPointerMove={e => {
+        if (draggingRef.current) seek(e);
+        onPointerMove?.(e);
+      }}
+      onPointerUp={e => {
+        draggingRef.current = false;
+        onPointerUp?.(e);
+      }}
+      {...props}
+    />
+  );
+};
+
+export { WaveformOverview };
@@ -0,0 +1,596 @@
+import { createBarsState } from "./bars-state";
+import { updatePeak } from "./envelope";
+import type { FrequencyBandsOptions } from "./frequency-bands";
+import {
+  defaultBarColor,
+  drawBar,
+  type BarsEnvelopeOptions,
+  type BarsLayoutOptions
+} from "./scripts";
+import type {
+  AudioAnalyserListener,
+  BarsLayout,
+  CustomBarColorArg,
+  CustomBarHeightArg,
+  CustomBarWidthArg,
+  CustomDrawFunction,
+  StereoLayout,
+  VisualizerMode
+} from "./types";
+
+/**
+ * The index of each layout in the vertex shader
+ */
+const LAYOUTS: Record<BarsLayout, number> = {
+  bottom: 0,
+  top: 1,
+  center: 2,
+  vertical: 3,
+  radial: 4
+};
+
+/**
+ * The vertex shader places one corner of a bar, or of its peak cap, per vertex.
+ * Each instance is a bar, its height and peak are read from the textures,
+ * and the same layouts as `drawBar` are used. In the center layout,
+ * the peak caps are drawn twice, the second half of the instances being mirrored.
+ */
+const VERTEX_SHADER = `#version 300 es
+uniform sampler2D u_heights;
+uniform sampler2D u_peaks;
+uniform vec2 u_size;
+uniform vec2 u_flip;
+uniform float u_count;
+uniform float u_barWidth;
+uniform float u_space;
+uniform int u_layout;
+uniform float u_radius;
+uniform float u_startAngle;
+uniform float u_sweep;
+uniform bool u_peak;
+uniform float u_peakHeight;
+
+out vec2 v_uv;
+out float v_index;
+out float v_height;
+
+float fetch(sampler2D data, int index) {
+  int width = textureSize(data, 0).x;
+
+  return texelFetch(data, ivec2(index % width, index / width), 0).r;
+}
+
+void main() {
+  int index = gl_InstanceID % int(u_count);
+  bool mirrored = gl_InstanceID >= int(u_count);
+  vec2 corner = vec2(float(gl_VertexID & 1), float(gl_VertexID >> 1));
+  float height = fetch(u_heights, index);
+
+  float start = u_layout == 2 ? -height / 2.0 : 0.0;
+  float extent = height;
+
+  if (u_peak) {
+    float peak = fetch(u_peaks, index);
+
+    start = u_layout == 2 ? peak / 2.0 : peak;
+    extent = u_peakHeight;
+  }
+
+  float along = start + corner.y * extent;
+  float across = float(index) * (u_barWidth + u_space) + corner.x * u_barWidth;
+  vec2 position = vec2(across, u_size.y - along);
+
+  if (u_layout == 1) {
+    position = vec2(across, along);
+  } else if (u_layout == 2) {
+    position = vec2(across, u_size.y / 2.0 + (mirrored ? along : -along));
+  } else if (u_layout == 3) {
+    position = vec2(along, across);
+  } else if (u_layout == 4) {
+    float angle = u_startAngle + u_sweep * (float(index) + 0.5) / u_count;
+    vec2 local = vec2(u_radius + along, (corner.x - 0.5) * u_barWidth);
+
+    position = u_size / 2.0 + mat2(cos(angle), sin(angle), -sin(angle), cos(angle)) * local;
+  }
+
+  vec2 clip = position / u_size * 2.0 - 1.0;
+
+  gl_Position = vec4(clip.x * u_flip.x, -clip.y * u_flip.y, 0.0, 1.0);
+  v_uv = corner;
+  v_index = float(index);
+  v_height = height;
+}
+`;
+
+/**
+ * The default fragment shader, that uses `barColor` and `peakColor`,
+ * or the hue wheel of `defaultBarColor`
+ */
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+
+in float v_index;
+in float v_height;
+
+uniform float u_count;
+uniform bool u_rainbow;
+uniform vec4 u_color;
+
+out vec4 fragColor;
+
+vec3 hsl(float h, float s, float l) {
+  vec3 rgb = clamp(abs(mod(h * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+
+  return l + s * (rgb - 0.5) * (1.0 - abs(2.0 * l - 1.0));
+}
+
+void main() {
+  fragColor = u_rainbow
+    ? vec4(hsl(v_index / u_count, clamp(v_height / 100.0, 0.0, 1.0), 0.5), 1.0)
+    : u_color;
+}
+`;
+
+/**
+ * The options of the bars that the WebGL renderer can draw
+ */
+type WebGLRendererOptions = {
+  mode: VisualizerMode;
+  barColor: CustomBarColorArg;
+  drawFunction: CustomDrawFunction;
+  peakColor?: string | CanvasGradient | CanvasPattern;
+};
+
+/**
+ * The WebGL renderer, created with `createWebGLBarsRenderer`
+ */
+type WebGLBarsRenderer = {
+  render: AudioAnalyserListener;
+
+  /**
+   * Deletes the shaders and the textures
+   */
+  dispose: () => void;
+};
+
+/**
+ * Checks whether the bars can be drawn with WebGL.
+ * The colors are passed to the shaders, so they must be strings,
+ * and only the default draw function can be turned into a shader
+ *
+ * @param options The drawing options of the component
+ * @returns Whether WebGL 2 is supported and the options can be drawn with it
+ */
+function isWebGLRendererSupported({
+  mode,
+  barColor,
+  drawFunction,
+  peakColor
+}: WebGLRendererOptions): boolean {
+  return (
+    typeof WebGL2RenderingContext !== "undefined" &&
+    mode === "bars" &&
+    drawFunction === drawBar &&
+    (typeof barColor === "string" || barColor === defaultBarColor) &&
+    (peakColor === undefined || typeof peakColor === "string")
+  );
+}
+
+/**
+ * The canvas used to parse the colors, created the first time a color is parsed
+ */
+let colorContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * Parses a CSS color, by drawing it on a 1x1 canvas
+ *
+ * @param color The CSS color to parse
+ * @returns The red, green, blue and alpha components of the color, from 0 to 1
+ */
+function parseColor(color: string): [number, number, number, number] {
+  if (!colorContext) {
+    const canvas = document.createElement("canvas");
+
+    canvas.width = 1;
+    canvas.height = 1;
+    colorContext = canvas.getContext("2d", { willReadFrequently: true });
+  }
+
+  if (!colorContext) return [1, 1, 1, 1];
+
+  colorContext.clearRect(0, 0, 1, 1);
+  colorContext.fillStyle = color;
+  colorContext.fillRect(0, 0, 1, 1);
+
+  const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data;
+
+  return [r / 255, g / 255, b / 255, a / 255];
+}
+
+/**
+ * Compiles a shader
+ *
+ * @param gl The WebGL context
+ * @param type The type of the shader
+ * @param source The GLSL source of the shader
+ * @returns The compiled shader
+ */
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string) {
+  const shader = gl.createShader(type);
+
+  if (!shader) {
+    throw new Error("Could not create the WebGL shader");
+  }
+
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+
+    gl.deleteShader(shader);
+
+    throw new Error(`Could not compile the WebGL shader: ${log}`);
+  }
+
+  return shader;
+}
+
+/**
+ * Compiles and links the program that draws the bars
+ *
+ * @param gl The WebGL context
+ * @param fragmentShader The GLSL source of the fragment shader
+ * @returns The linked program
+ */
+function createProgram(gl: WebGL2RenderingContext, fragmentShader: string) {
+  const program = gl.createProgram();
+
+  if (!program) {
+    throw new Error("Could not create the WebGL program");
+  }
+
+  const shaders = [
+    compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER),
+    compileShader(gl, gl.FRAGMENT_SHADER, fragmentShader)
+  ];
+
+  shaders.forEach(shader => gl.attachShader(program, shader));
+  gl.linkProgram(program);
+  shaders.forEach(shader => gl.deleteShader(shader));
+
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    const log = gl.getProgramInfoLog(program);
+
+    gl.deleteProgram(program);
+
+    throw new Error(`Could not link the WebGL program: ${log}`);
+  }
+
+  return program;
+}
+
+/**
+ * Creates a texture that holds one float per bar
+ *
+ * @param gl The WebGL context
+ * @returns The texture, read with `texelFetch` so it is not filtered
+ */
+function createDataTexture(gl: WebGL2RenderingContext) {
+  const texture = gl.createTexture();
+
+  gl.bindTexture(gl.TEXTURE_2D, texture);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+  gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+  return texture;
+}
+
+/**
+ * Function to create the WebGL bars renderer
+ * The renderer draws the same bars as `createBarsRenderer`, but on the GPU:
+ * the bands and the envelopes are computed as usual, then the heights of the bars
+ * and of their peak caps are uploaded as textures, and all the bars are drawn
+ * in a single instanced draw call, with `barWidth` and `spaceBetweenBars` as uniforms
+ *
+ * @param canvas The reference to the canvas element
+ * @param stagger The number of frames to skip before drawing
+ * @param barWidth The width of each bar
+ * @param barHeight The height of each bar
+ * @param getBarColor Gets the color of the bars, null to use the default colors.
+ * It is read on each frame, so the color can change without creating the renderer again
+ * @param spaceBetweenBars The space between each bar
+ * @param bandsOptions How the analyser bins are grouped into bands
+ * @param layoutOptions How the bars are laid out on the canvas
+ * @param stereoLayout How the channels are laid out on the canvas, in stereo
+ * @param envelopeOptions How the bars rise and fall, and their peak caps
+ * @param pixelRatio The number of canvas pixels per CSS pixel
+ * @param fragmentShader The source of a custom fragment shader
+ * @returns The renderer, or null if WebGL 2 is not supported,
+ * in which case the canvas can still be drawn with the 2D renderer
+ */
+function createWebGLBarsRenderer(
+  canvas: HTMLCanvasElement,
+  stagger: number,
+  barWidth: CustomBarWidthArg,
+  barHeight: CustomBarHeightArg,
+  getBarColor: () => string | null,
+  spaceBetweenBars: number,
+  bandsOptions: FrequencyBandsOptions,
+  layoutOptions: BarsLayoutOptions,
+  stereoLayout: StereoLayout,
+  envelopeOptions: BarsEnvelopeOptions & { peakColor?: string },
+  pixelRatio: number,
+  fragmentShader?: string
+): WebGLBarsRenderer | null {
+  let frame = 0;
+  let lastTimestamp: number | null = null;
+
+  const bars = createBarsState(bandsOptions, envelopeOptions);
+
+  /**
+   * The heights and the peak caps uploaded to the textures, padded to their size
+   */
+  let heights = new Float32Array(0);
+  let peakHeights = new Float32Array(0);
+
+  /**
+   * The bars are stored in rows, since a texture cannot be wider than `MAX_TEXTURE_SIZE`
+   */
+  let textureWidth = 1;
+  let textureRows = 1;
+
+  const gl = canvas.getContext("webgl2", {
+    premultipliedAlpha: false,
+    preserveDrawingBuffer: true
+  });
+
+  if (!gl) return null;
+
+  const program = createProgram(gl, fragmentShader ?? FRAGMENT_SHADER);
+  const heightsTexture = createDataTexture(gl);
+  const peaksTexture = createDataTexture(gl);
+  const maxTextureSize: number = gl.getParameter(gl.MAX_TEXTURE_SIZE);
+
+  const uniforms = new Map<string, WebGLUniformLocation | null>();
+
+  const getUniform = (name: string) => {
+    if (!uniforms.has(name)) {
+      uniforms.set(name, gl.getUniformLocation(program, name));
+    }
+
+    return uniforms.get(name) ?? null;
+  };
+
+  const getBarWidth = typeof barWidth === "function" ? barWidth : () => barWidth;
+
+  const { layout, startAngle, sweep, direction } = layoutOptions;
+  const { peakCaps, peakHoldTime, peakFallSpeed, peakHeight, peakColor } =
+    envelopeOptions;
+
+  /**
+   * The colors are parsed again only when the bar color changes
+   */
+  let barColor: string | null = null;
+  let color: [number, number, number, number] | null = null;
+  let capColor = peakColor === undefined ? null : parseColor(peakColor);
+
+  const updateColors = () => {
+    const next = getBarColor();
+
+    if (next === barColor) return;
+
+    barColor = next;
+    color = next === null ? null : parseColor(next);
+
+    if (peakColor === undefined) capColor = color;
+  };
+
+  gl.useProgram(program);
+  gl.uniform1i(getUniform("u_heights"), 0);
+  gl.uniform1i(getUniform("u_peaks"), 1);
+  gl.uniform1i(getUniform("u_layout"), LAYOUTS[layout]);
+  gl.uniform1f(getUniform("u_startAngle"), startAngle);
+  gl.uniform1f(getUniform("u_sweep"), (direction === "clockwise" ? 1 : -1) * sweep);
+  gl.uniform1f(getUniform("u_space"), spaceBetweenBars);
+  gl.uniform1f(getUniform("u_peakHeight"), peakHeight);
+
+  gl.enable(gl.BLEND);
+  gl.blendFuncSeparate(
+    gl.SRC_ALPHA,
+    gl.ONE_MINUS_SRC_ALPHA,
+    gl.ONE,
+    gl.ONE_MINUS_SRC_ALPHA
+  );
+
+  const upload = (
+    unit: number,
+    texture: WebGLTexture | null,
+    data: Float32Array
+  ) => {
+    gl.activeTexture(gl.TEXTURE0 + unit);
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texImage2D(
+      gl.TEXTURE_2D,
+      0,
+      gl.R32F,
+      textureWidth,
+      textureRows,
+      0,
+      gl.RED,
+      gl.FLOAT,
+      data
+    );
+  };
+
+  const setColor = (rgba: [number, number, number, number] | null) => {
+    gl.uniform1i(getUniform("u_rainbow"), rgba === null ? 1 : 0);
+
+    if (rgba) gl.uniform4fv(getUniform("u_color"), rgba);
+  };
+
+  /**
+   * Draws the bars of one channel in a viewport of the canvas,
+   * flipped the same way as the regions of the 2D renderer
+   */
+  const drawChannel = (
+    c: number,
+    viewport: [number, number, number, number],
+    flip: [number, number],
+    timestamp: number,
+    elapsed: number,
+    beat: number
+  ) => {
+    const { bands, values, peaks, holds } = bars;
+    const width = viewport[2] / pixelRatio;
+    const height = viewport[3] / pixelRatio;
+    const radius = layoutOptions.innerRadius ?? Math.min(width, height) / 4;
+
+    const axisLength =
+      layout === "radial"
+        ? radius * Math.abs(sweep)
+        : layout === "vertical"
+          ? height
+          : width;
+
+    for (let i = 0; i < bands.length; i++) {
+      heights[i] = barHeight(
+        values[c][i],
+        bands.length,
+        i,
+        bands[i].frequency,
+        beat
+      );
+
+      if (peakCaps) {
+        updatePeak(
+          peaks[c],
+          holds[c],
+          i,
+          heights[i],
+          timestamp,
+          elapsed,
+          peakHoldTime,
+          peakFallSpeed
+        );
+      }
+    }
+
+    peakHeights.set(peaks[c]);
+
+    upload(0, heightsTexture, heights);
+    upload(1, peaksTexture, peakHeights);
+
+    gl.viewport(...viewport);
+    gl.uniform2f(getUniform("u_size"), width, height);
+    gl.uniform2f(getUniform("u_flip"), ...flip);
+    gl.uniform1f(getUniform("u_barWidth"), getBarWidth(axisLength, bands.length));
+    gl.uniform1f(getUniform("u_radius"), radius);
+
+    gl.uniform1i(getUniform("u_peak"), 0);
+    setColor(color);
+    gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, bands.length);
+
+    if (!peakCaps) return;
+
+    gl.uniform1i(getUniform("u_peak"), 1);
+    setColor(capColor);
+    gl.drawArraysInstanced(
+      gl.TRIANGLE_STRIP,
+      0,
+      4,
+      layout === "center" ? bands.length * 2 : bands.length
+    );
+  };
+
+  const render: AudioAnalyserListener = ({
+    channels,
+    sampleRate,
+    timestamp,
+    beat,
+    idle
+  }) => {
+    frame++;
+
+    if ((frame % stagger !== 0 && !idle) || gl.isContextLost()) return;
+
+    const elapsed = lastTimestamp === null ? 0 : timestamp - lastTimestamp;
+
+    lastTimestamp = idle ? null : timestamp;
+
+    if (bars.update(channels, sampleRate, elapsed, idle)) {
+      textureWidth = Math.max(Math.min(bars.bands.length, maxTextureSize), 1);
+      textureRows = Math.ceil(bars.bands.length / textureWidth) || 1;
+
+      heights = new Float32Array(textureWidth * textureRows);
+      peakHeights = new Float32Array(textureWidth * textureRows);
+    }
+
+    gl.viewport(0, 0, canvas.width, canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    if (idle === "clear") return;
+
+    updateColors();
+
+    gl.useProgram(program);
+    gl.uniform1f(getUniform("u_count"), bars.bands.length);
+    gl.uniform1f(getUniform("u_time"), timestamp / 1000);
+    gl.uniform1f(getUniform("u_beat"), beat);
+    gl.uniform2f(getUniform("u_resolution"), canvas.width, canvas.height);
+
+    if (bars.bands.length === 0) return;
+
+    const { width, height } = canvas;
+
+    if (channels.length === 1) {
+      drawChannel(0, [0, 0, width, height], [1, 1], timestamp, elapsed, beat);
+      return;
+    }
+
+    /**
+     * In stereo, each channel is drawn in half of the canvas,
+     * flipped so that both channels start from the center.
+     * The viewports start from the bottom left corner of the canvas
+     */
+    if (stereoLayout === "stacked") {
+      const half = Math.round(height / 2);
+
+      drawChannel(
+        0,
+        [0, half, width, height - half],
+        [1, 1],
+        timestamp,
+        elapsed,
+        beat
+      );
+      drawChannel(1, [0, 0, width, half], [1, -1], timestamp, elapsed, beat);
+    } else {
+      const half = Math.round(width / 2);
+
+      drawChannel(0, [0, 0, half, height], [-1, 1], timestamp, elapsed, beat);
+      drawChannel(
+        1,
+        [half, 0, width - half, height],
+        [1, 1],
+        timestamp,
+        elapsed,
+        beat
+      );
+    }
+  };
+
+  return {
+    render,
+    dispose: () => {
+      gl.deleteProgram(program);
+      gl.deleteTexture(heightsTexture);
+      gl.deleteTexture(peaksTexture);
+    }
+  };
+}
+
+export { createWebGLBarsRenderer, isWebGLRendererSupported };
@@ -0,0 +1,440 @@
+import type { FrequencyBandsOptions } from "./frequency-bands";
+import {
+  defaultBarColor,
+  defaultBarHeight,
+  defaultBarWidth,
+  drawBar,
+  drawWaveform,
+  type BarsEnvelopeOptions,
+  type BarsLayoutOptions
+} from "./scripts";
+import type { SpectrogramOptions } from "./spectrogram-renderer";
+import type {
+  AudioAnalyserFrame,
+  AudioAnalyserListener,
+  CustomBarColorArg,
+  CustomBarHeightArg,
+  CustomBarWidthArg,
+  CustomDrawFunction,
+  CustomWaveformDrawFunction,
+  StereoLayout,
+  VisualizerMode,
+  WaveformStyle,
+  WaveformTrigger
+} from "./types";
+
+/**
+ * The drawing options that can be sent to the worker.
+ * Functions, gradients and patterns cannot be cloned, so only the built-in
+ * draw functions are used, and the colors are strings
+ */
+type WorkerRendererConfig = {
+  mode: VisualizerMode;
+  stagger: number;
+  barWidth: number | null;
+  barColor: string | null;
+  spaceBetweenBars: number;
+  bandsOptions: FrequencyBandsOptions;
+  layoutOptions: BarsLayoutOptions;
+  stereoLayout: StereoLayout;
+  envelopeOptions: BarsEnvelopeOptions & { peakColor?: string };
+  waveformStyle: WaveformStyle;
+  waveformColor: string;
+  lineWidth: number;
+  waveformScale: number;
+  waveformTrigger: WaveformTrigger;
+  spectrogramOptions: SpectrogramOptions;
+
+  /**
+   * The level of silence and the highest level in the data format,
+   * for the default bar height, see `getDefaultBarHeight`
+   */
+  levelRange: [number, number];
+  pixelRatio: number;
+};
+
+/**
+ * The drawing options of the component, that may or may not be sent to the worker
+ */
+type WorkerRendererOptions = Omit<
+  WorkerRendererConfig,
+  "barWidth" | "barColor" | "envelopeOptions" | "waveformColor"
+> & {
+  barWidth: CustomBarWidthArg;
+  barHeight: CustomBarHeightArg;
+  barColor: CustomBarColorArg;
+  drawFunction: CustomDrawFunction;
+  envelopeOptions: BarsEnvelopeOptions;
+  waveformColor: string | CanvasGradient | CanvasPattern;
+  waveformDrawFunction: CustomWaveformDrawFunction;
+};
+
+/**
+ * The messages sent from the main thread to the worker
+ *
+ * canvas: The canvas to draw on, transferred once
+ * config: The drawing options, the renderer is created again with them
+ * unless only the bar width and color have changed
+ * resize: The new size of the canvas, in canvas pixels
+ * frame: The analyser data to draw, sent back once drawn so its buffers can be reused
+ */
+type RenderWorkerMessage =
+  | { type: "canvas"; canvas: OffscreenCanvas }
+  | { type: "config"; config: WorkerRendererConfig }
+  | { type: "resize"; width: number; height: number }
+  | { type: "frame"; frame: AudioAnalyserFrame };
+
+/**
+ * The main thread side of a worker that draws on a canvas
+ */
+type WorkerRenderer = {
+  /**
+   * Sends a frame to the worker, skipped if the worker is still drawing the previous one
+   */
+  render: AudioAnalyserListener;
+  configure: (config: WorkerRendererConfig) => void;
+  resize: (width: number, height: number, pixelRatio: number) => void;
+};
+
+/**
+ * The function called when the worker cannot be loaded or throws
+ */
+type WorkerErrorListener = (error: unknown) => void;
+
+/**
+ * The worker of each canvas, with the components using it.
+ * The control of a canvas can only be transferred once,
+ * so the worker is kept as long as the canvas is used
+ */
+const workerRenderers = new WeakMap<
+  HTMLCanvasElement,
+  {
+    renderer: WorkerRenderer;
+    worker: Worker;
+    users: number;
+    listeners: Set<WorkerErrorListener>;
+  }
+>();
+
+/**
+ * Checks whether the canvas can be drawn in a worker
+ *
+ * @returns Whether OffscreenCanvas and workers are supported
+ */
+function isOffscreenCanvasSupported(): boolean {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "transferControlToOffscreen" in HTMLCanvasElement.prototype
+  );
+}
+
+/**
+ * Gets the options that can be sent to the worker
+ *
+ * @param options The drawing options of the component
+ * @returns The options to send to the worker, or null if some of them cannot be cloned
+ * (custom functions, gradients or patterns), in which case the canvas is drawn on the main thread
+ */
+function getWorkerConfig({
+  barWidth,
+  barHeight,
+  barColor,
+  drawFunction,
+  envelopeOptions,
+  waveformColor,
+  waveformDrawFunction,
+  ...options
+}: WorkerRendererOptions): WorkerRendererConfig | null {
+  const { peakColor } = envelopeOptions;
+
+  if (
+    (typeof barWidth !== "number" && barWidth !== defaultBarWidth) ||
+    barHeight !== defaultBarHeight ||
+    (typeof barColor !== "string" && barColor !== defaultBarColor) ||
+    drawFunction !== drawBar ||
+    (peakColor !== undefined && typeof peakColor !== "string") ||
+    typeof waveformColor !== "string" ||
+    waveformDrawFunction !== drawWaveform
+  ) {
+    return null;
+  }
+
+  return {
+    ...options,
+    barWidth: typeof barWidth === "number" ? barWidth : null,
+    barColor: typeof barColor === "string" ? barColor : null,
+    envelopeOptions: { ...envelopeOptions, peakColor },
+    waveformColor
+  };
+}
+
+/**
+ * Gets the buffers of a frame, each one once, so they can be transferred
+ *
+ * @param frame The frame to get the buffers of
+ * @returns The buffers of the frame
+ */
+function getFrameBuffers({
+  frequencyData,
+  timeDomainData,
+  levels,
+  channels
+}: AudioAnalyserFrame): ArrayBuffer[] {
+  const buffers = new Set<ArrayBufferLike>([
+    frequencyData.buffer,
+    timeDomainData.buffer,
+    levels.buffer
+  ]);
+
+  channels.forEach(channel => {
+    buffers.add(channel.frequencyData.buffer);
+    buffers.add(channel.timeDomainData.buffer);
+    buffers.add(channel.levels.buffer);
+  });
+
+  return [...buffers] as ArrayBuffer[];
+}
+
+/**
+ * Allocates the buffers of a copy of a frame.
+ * In mono, the channel keeps sharing the arrays of the frame
+ *
+ * @param frame The frame to allocate a copy of
+ * @returns A frame with empty buffers of the same sizes
+ */
+function createFrameBuffers(frame: AudioAnalyserFrame): AudioAnalyserFrame {
+  const frequencyData = new Uint8Array(frame.frequencyData.length);
+  const timeDomainData = new Float32Array(frame.timeDomainData.length);
+  const levels = new Float32Array(frame.levels.length);
+
+  return {
+    ...frame,
+    frequencyData,
+    timeDomainData,
+    levels,
+    channels: frame.channels.map(channel =>
+      channel.frequencyData === frame.frequencyData
+        ? { frequencyData, timeDomainData, levels }
+        : {
+            frequencyData: new Uint8Array(channel.frequencyData.length),
+            timeDomainData: new Float32Array(channel.timeDomainData.length),
+            levels: new Float32Array(channel.levels.length)
+          }
+    )
+  };
+}
+
+/**
+ * Copies a frame into the buffers of a previous frame sent back by the worker,
+ * or into new buffers if there is none or if the analyser has been resized
+ *
+ * @param frame The frame to copy
+ * @param target The previous frame, whose buffers can be reused
+ * @returns The copy of the frame
+ */
+function copyFrame(
+  frame: AudioAnalyserFrame,
+  target: AudioAnalyserFrame | null
+): AudioAnalyserFrame {
+  const copy =
+    target &&
+    target.channels.length === frame.channels.length &&
+    target.frequencyData.length === frame.frequencyData.length &&
+    target.timeDomainData.length === frame.timeDomainData.length
+      ? target
+      : createFrameBuffers(frame);
+
+  copy.frequencyData.set(frame.frequencyData);
+  copy.timeDomainData.set(frame.timeDomainData);
+  copy.levels.set(frame.levels);
+
+  frame.channels.forEach((channel, i) => {
+    copy.channels[i].frequencyData.set(channel.frequencyData);
+    copy.channels[i].timeDomainData.set(channel.timeDomainData);
+    copy.channels[i].levels.set(channel.levels);
+  });
+
+  copy.sampleRate = frame.sampleRate;
+  copy.timestamp = frame.timestamp;
+  copy.beat = frame.beat;
+  copy.idle = frame.idle;
+
+  return copy;
+}
+
+/**
+ * Creates the worker that draws on the canvas, and transfers the control of the canvas to it.
+ * The url points to the source file, so bundlers like Vite find the worker from `src`,
+ * and it is replaced with the built file by the tsup config
+ *
+ * @param canvas The canvas to draw on
+ * @param onError The function to call when the worker cannot be loaded or throws,
+ * after which it is terminated
+ * @returns The worker, and its main thread side
+ */
+function createWorkerRenderer(
+  canvas: HTMLCanvasElement,
+  onError: WorkerErrorListener
+) {
+  const worker = new Worker(new URL("./render-worker.ts", import.meta.url), {
+    type: "module"
+  });
+
+  const fail = (error: unknown) => {
+    worker.terminate();
+    onError(error);
+  };
+
+  worker.onerror = event => {
+    event.preventDefault();
+    fail(
+      event.error ??
+        new Error(event.message || "The render worker could not be loaded")
+    );
+  };
+
+  worker.onmessageerror = () =>
+    fail(new Error("A message of the render worker could not be read"));
+
+  const offscreen = canvas.transferControlToOffscreen();
+
+  const post = (message: RenderWorkerMessage, transfer: Transferable[] = []) => {
+    worker.postMessage(message, transfer);
+  };
+
+  post({ type: "canvas", canvas: offscreen }, [offscreen]);
+
+  /**
+   * The last frame sent back by the worker, whose buffers are reused,
+   * and whether a frame is being drawn
+   */
+  let spare: AudioAnalyserFrame | null = null;
+  let pending = false;
+
+  /**
+   * The idle frame cannot be skipped, since no frame follows it,
+   * so it waits for the frame being drawn, unless the playback resumes in the meantime
+   */
+  let idle: AudioAnalyserFrame | null = null;
+
+  const send = (frame: AudioAnalyserFrame) => {
+    const copy = copyFrame(frame, spare);
+
+    spare = null;
+    pending = true;
+
+    post({ type: "frame", frame: copy }, getFrameBuffers(copy));
+  };
+
+  worker.onmessage = (event: MessageEvent<AudioAnalyserFrame>) => {
+    spare = event.data;
+    pending = false;
+
+    if (idle) {
+      send(idle);
+      idle = null;
+    }
+  };
+
+  const renderer: WorkerRenderer = {
+    render: frame => {
+      if (pending) {
+        idle = frame.idle ? copyFrame(frame, null) : null;
+        return;
+      }
+
+      send(frame);
+    },
+    configure: config => post({ type: "config", config }),
+    resize: (width, height, pixelRatio) =>
+      post({
+        type: "resize",
+        width: Math.round(width * pixelRatio),
+        height: Math.round(height * pixelRatio)
+      })
+  };
+
+  return { renderer, worker };
+}
+
+/**
+ * Gets the worker that draws on the canvas, creating it the first time
+ *
+ * @param canvas The canvas to draw on
+ * @param onError The function to call when the worker cannot be loaded or throws.
+ * The canvas cannot be drawn on the main thread anymore, so a new one must be used
+ * @returns The main thread side of the worker
+ */
+function acquireWorkerRenderer(
+  canvas: HTMLCanvasElement,
+  onError: WorkerErrorListener
+): WorkerRenderer {
+  let entry = workerRenderers.get(canvas);
+
+  if (!entry) {
+    const listeners = new Set<WorkerErrorListener>();
+
+    entry = {
+      ...createWorkerRenderer(canvas, error =>
+        listeners.forEach(listener => listener(error))
+      ),
+      users: 0,
+      listeners
+    };
+    workerRenderers.set(canvas, entry);
+  }
+
+  entry.users++;
+  entry.listeners.add(onError);
+
+  return entry.renderer;
+}
+
+/**
+ * Stops using the worker of the canvas.
+ * The worker is terminated on the next task if no one uses it anymore,
+ * so an effect that is cleaned up and run again right away keeps the same worker
+ *
+ * @param canvas The canvas the worker draws on
+ * @param onError The function passed to `acquireWorkerRenderer`
+ */
+function releaseWorkerRenderer(
+  canvas: HTMLCanvasElement,
+  onError: WorkerErrorListener
+) {
+  const entry = workerRenderers.get(canvas);
+
+  if (!entry) return;
+
+  entry.users--;
+  entry.listeners.delete(onError);
+
+  setTimeout(() => {
+    if (entry.users > 0) return;
+
+    entry.worker.terminate();
+    workerRenderers.delete(canvas);
+  });
+}
+
+/**
+ * Gets the worker that draws on the canvas, without creating it
+ *
+ * @param canvas The canvas the worker draws on
+ * @returns The main thread side of the worker, if there is one
+ */
+function getWorkerRenderer(canvas: HTMLCanvasElement): WorkerRenderer | undefined {
+  return workerRenderers.get(canvas)?.renderer;
+}
+
+export {
+  acquireWorkerRenderer,
+  getFrameBuffers,
+  getWorkerConfig,
+  getWorkerRenderer,
+  isOffscreenCanvasSupported,
+  releaseWorkerRenderer
+};
+export type { RenderWorkerMessage, WorkerRenderer, WorkerRendererConfig };
@@ -1,10 +1,29 @@
+import { readFile } from "node:fs/promises";
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.tsx"],
+  entry: ["src/index.tsx", "src/render-worker.ts"],
   format: ["esm"],
   dts: true,
   clean: true,
   minify: true,
-  sourcemap: true
+  sourcemap: true,
+  esbuildPlugins: [
+    /**
+     * The worker is loaded from its source file, so it is found from `src`,
+     * and from the built file next to `index.js` in `dist`
+     */
+    {
+      name: "render-worker-url",
+      setup(build) {
+        build.onLoad({ filter: /worker-renderer\.ts$/ }, async ({ path }) => ({
+          contents: (await readFile(path, "utf8")).replace(
+            '"./render-worker.ts"',
+            '"./render-worker.js"'
+          ),
+          loader: "ts"
+        }));
+      }
+    }
+  ]
 });